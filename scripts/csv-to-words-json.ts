@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+    decodeWordFile,
+    parseWordTable,
+    detectColumns,
+    convertWordTable
+} from '../src/utils/wordImport';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Main converter function
+ */
+function convertCsvToJson() {
+    const csvPath = path.join(__dirname, '..', 'words.csv');
+    const jsonPath = path.join(__dirname, '..', 'src', 'data', 'words.json');
+
+    console.log('📖 Reading CSV file...');
+
+    // Read CSV file as raw bytes; decoding handles UTF-8 and UTF-16 LE byte order marks
+    let csvBuffer: Buffer;
+    try {
+        csvBuffer = fs.readFileSync(csvPath);
+    } catch (err) {
+        console.error('❌ Error reading CSV file:', (err as Error).message);
+        process.exit(1);
+    }
+    const csvContent = decodeWordFile(csvBuffer);
+
+    // Parse CSV (or TSV, detected from the header line)
+    let table: ReturnType<typeof parseWordTable>;
+    try {
+        table = parseWordTable(csvContent);
+    } catch (err) {
+        console.error('❌ Error parsing CSV:', (err as Error).message);
+        process.exit(1);
+    }
+
+    if (table.rows.length === 0) {
+        console.error('❌ CSV file is empty');
+        process.exit(1);
+    }
+
+    // Detect column mappings
+    const { headers } = table;
+    const columnMapping = detectColumns(headers);
+    const columnName = (index: number | null) => index === null ? null : headers[index];
+
+    console.log('\n🔍 Detected column mappings:');
+    console.log(`   Spanish       → ${columnName(columnMapping.spanish) || '(not found)'}`);
+    console.log(`   English       → ${columnName(columnMapping.english) || '(not found)'}`);
+    console.log(`   Category      → ${columnName(columnMapping.category) || '(not found, will use "General")'}`);
+    console.log(`   Pronunciation → ${columnName(columnMapping.pronunciation) || '(not found, will omit)'}`);
+    console.log(`   Example       → ${columnName(columnMapping.example) || '(not found, will omit)'}`);
+
+    if (columnMapping.spanish === null || columnMapping.english === null) {
+        console.error('\n❌ Required columns (Spanish and English) not found!');
+        console.error('   Available headers:', headers.join(', '));
+        process.exit(1);
+    }
+
+    // Convert records
+    const { rows, skipped } = convertWordTable(table, columnMapping);
+    const words = rows.map(row => row.word);
+
+    // Write JSON file with proper UTF-8 encoding (no BOM)
+    try {
+        const jsonContent = JSON.stringify(words, null, 2);
+        fs.writeFileSync(jsonPath, jsonContent, { encoding: 'utf8' });
+    } catch (err) {
+        console.error('❌ Error writing JSON file:', (err as Error).message);
+        process.exit(1);
+    }
+
+    // Print summary
+    console.log('\n✅ Conversion complete!');
+    console.log(`\n📊 Summary:`);
+    console.log(`   Rows read:    ${table.rows.length}`);
+    console.log(`   Rows written: ${words.length}`);
+    console.log(`   Rows skipped: ${skipped}`);
+    console.log(`\n📁 Output: ${jsonPath}`);
+
+    // Count words with pronunciation
+    const withPron = words.filter(w => w.pronunciation).length;
+    console.log(`\n🎤 Pronunciation: ${withPron}/${words.length} words have pronunciation`);
+
+    // Sample some words with accents to verify
+    const accentedWords = words.filter(w => /[áéíóúüñ]/i.test(w.spanish)).slice(0, 5);
+    if (accentedWords.length > 0) {
+        console.log('\n✓ Sample accented words:');
+        accentedWords.forEach(w => console.log(`   ${w.spanish} → ${w.english}`));
+    }
+
+    // Show category breakdown
+    const categories: Record<string, number> = {};
+    words.forEach(w => {
+        categories[w.category] = (categories[w.category] || 0) + 1;
+    });
+
+    console.log(`\n📚 Categories (${Object.keys(categories).length} total):`);
+    Object.entries(categories)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .forEach(([cat, count]) => {
+            console.log(`   ${cat.padEnd(20)} ${count} words`);
+        });
+    console.log('   ...');
+}
+
+// Run converter
+convertCsvToJson();
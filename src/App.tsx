@@ -7,6 +7,11 @@ import Review from "./pages/Review";
 import Categories from "./pages/Categories";
 import Settings from "./pages/Settings";
 import Games from "./pages/Games";
+import Leeches from "./pages/Leeches";
+import WordDetail from "./pages/WordDetail";
+import Decks from "./pages/Decks";
+import ImportWords from "./pages/ImportWords";
+import ImportAnki from "./pages/ImportAnki";
 import QuickMatch from "./pages/games/QuickMatch";
 import SprintMCQ from "./pages/games/SprintMCQ";
 import TypeIt from "./pages/games/TypeIt";
@@ -21,6 +26,11 @@ const App = () => (
       <Route path="/review" element={<Review />} />
       <Route path="/categories" element={<Categories />} />
       <Route path="/settings" element={<Settings />} />
+      <Route path="/settings/import" element={<ImportWords />} />
+      <Route path="/settings/import-anki" element={<ImportAnki />} />
+      <Route path="/leeches" element={<Leeches />} />
+      <Route path="/words/:wordId" element={<WordDetail />} />
+      <Route path="/decks" element={<Decks />} />
       <Route path="/games" element={<Games />} />
       <Route path="/games/quick-match" element={<QuickMatch />} />
       <Route path="/games/sprint" element={<SprintMCQ />} />
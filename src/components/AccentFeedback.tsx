@@ -0,0 +1,36 @@
+import { isTildeMistake, type AccentMistake } from "../utils/text";
+
+type AccentFeedbackProps = {
+  target: string;
+  mistakes: AccentMistake[];
+};
+
+/**
+ * The target word with the letters that needed an accent highlighted,
+ * and a line on what was missed
+ */
+const AccentFeedback = ({ target, mistakes }: AccentFeedbackProps) => {
+  if (mistakes.length === 0) return null;
+
+  const byIndex = new Map(mistakes.map(m => [m.index, m]));
+  const tilde = mistakes.some(isTildeMistake);
+  const accents = mistakes.some(m => !isTildeMistake(m));
+
+  return (
+    <div className="mt-2 space-y-1">
+      <p className="text-2xl font-bold tracking-wide">
+        {[...target.normalize("NFC")].map((char, index) => (
+          byIndex.has(index)
+            ? <mark key={index} className="rounded px-0.5 bg-amber-300/70 dark:bg-amber-500/40 text-foreground underline decoration-2">{char}</mark>
+            : <span key={index}>{char}</span>
+        ))}
+      </p>
+      <p className="text-sm text-muted-foreground">
+        {accents && <>Watch the accent: {mistakes.filter(m => !isTildeMistake(m)).map(m => `${m.typed} → ${m.expected}`).join(", ")}. </>}
+        {tilde && <>ñ is a letter of its own, not n.</>}
+      </p>
+    </div>
+  );
+};
+
+export default AccentFeedback;
@@ -0,0 +1,54 @@
+import { alignStrings } from "../utils/text";
+import { cn } from "../lib/utils";
+
+type AnswerDiffProps = {
+  typed: string;
+  target: string;
+  className?: string;
+};
+
+/**
+ * A typed answer aligned with the target, letter by letter: extra or wrong
+ * letters struck through in red, missing or right ones in green, swapped
+ * pairs in amber
+ */
+const AnswerDiff = ({ typed, target, className }: AnswerDiffProps) => {
+  if (!typed.trim()) return null;
+
+  return (
+    <div className={cn("mt-2 space-y-1", className)}>
+      <p className="text-2xl font-bold tracking-wide whitespace-pre-wrap" aria-label={`You typed ${typed}, the answer is ${target}`}>
+        {alignStrings(typed, target).map((op, index) => {
+          switch (op.type) {
+            case "match":
+              return <span key={index}>{op.expected}</span>;
+            case "substitute":
+              return (
+                <span key={index}>
+                  <span className="text-red-500 line-through decoration-2">{op.typed}</span>
+                  <span className="text-green-600 dark:text-green-400 underline decoration-2">{op.expected}</span>
+                </span>
+              );
+            case "transpose":
+              return (
+                <span key={index} className="text-amber-600 dark:text-amber-400 underline decoration-wavy decoration-2" title={`${op.typed} → ${op.expected}`}>
+                  {op.expected}
+                </span>
+              );
+            case "insert":
+              return <span key={index} className="text-red-500 line-through decoration-2">{op.typed}</span>;
+            case "delete":
+              return <span key={index} className="text-green-600 dark:text-green-400 underline decoration-2">{op.expected}</span>;
+          }
+        })}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        <span className="text-red-500 line-through">struck out</span>: remove ·{" "}
+        <span className="text-green-600 dark:text-green-400 underline">underlined</span>: add ·{" "}
+        <span className="text-amber-600 dark:text-amber-400 underline decoration-wavy">wavy</span>: swapped
+      </p>
+    </div>
+  );
+};
+
+export default AnswerDiff;
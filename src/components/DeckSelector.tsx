@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+import { Layers } from "lucide-react";
+import { useDeck } from "../context/DeckContext";
+import { ALL_WORDS_DECK_ID } from "../services/Decks";
+import { cn } from "../lib/utils";
+
+type DeckSelectorProps = {
+  className?: string;
+};
+
+/**
+ * Picks the deck that queues and games draw their words from
+ */
+const DeckSelector = ({ className }: DeckSelectorProps) => {
+  const { decks, activeDeckId, words, selectDeck } = useDeck();
+
+  return (
+    <div className={cn("flex items-center gap-2 text-sm", className)}>
+      <Layers className="h-4 w-4 text-muted-foreground shrink-0" />
+      <select
+        value={activeDeckId}
+        onChange={(e) => selectDeck(e.target.value)}
+        className="min-w-0 p-2 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+        aria-label="Deck"
+      >
+        <option value={ALL_WORDS_DECK_ID}>All words</option>
+        {decks.map(deck => (
+          <option key={deck.id} value={deck.id}>{deck.name}</option>
+        ))}
+      </select>
+      <span className="text-muted-foreground whitespace-nowrap">{words.length} words</span>
+      <Link to="/decks" className="text-primary hover:underline whitespace-nowrap">
+        Manage
+      </Link>
+    </div>
+  );
+};
+
+export default DeckSelector;
@@ -0,0 +1,64 @@
+import { useEffect } from "react";
+import { cn } from "../lib/utils";
+import { formatInterval, REVIEW_GRADES, type ReviewGrade } from "../services/Scheduler";
+
+const grades: Record<ReviewGrade, { label: string; emoji: string; color: string }> = {
+  again: { label: "Again", emoji: "😕", color: "from-red-500 to-rose-600" },
+  hard: { label: "Hard", emoji: "😐", color: "from-amber-400 to-orange-500" },
+  good: { label: "Good", emoji: "😊", color: "from-green-500 to-emerald-600" },
+  easy: { label: "Easy", emoji: "😄", color: "from-blue-500 to-indigo-600" }
+};
+
+type GradeButtonsProps = {
+  onGrade: (grade: ReviewGrade) => void;
+  intervals?: Record<ReviewGrade, number> | null;
+  disabled?: boolean;
+};
+
+/**
+ * Again / Hard / Good / Easy buttons with the resulting interval on each.
+ * Keys 1-4 pick a grade while the buttons are shown.
+ */
+const GradeButtons = ({ onGrade, intervals, disabled = false }: GradeButtonsProps) => {
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const index = parseInt(e.key, 10) - 1;
+      if (index >= 0 && index < REVIEW_GRADES.length) {
+        e.preventDefault();
+        onGrade(REVIEW_GRADES[index]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onGrade, disabled]);
+
+  return (
+    <div className="grid grid-cols-4 gap-2 lg:gap-3">
+      {REVIEW_GRADES.map((grade, idx) => (
+        <button
+          key={grade}
+          type="button"
+          disabled={disabled}
+          className={cn(
+            "flex flex-col items-center gap-1 p-3 lg:p-4 rounded-xl bg-gradient-to-br text-white font-bold shadow-lg active:scale-95 transition-transform disabled:opacity-50",
+            grades[grade].color
+          )}
+          onClick={(e) => { e.stopPropagation(); onGrade(grade); }}
+          title={`${grades[grade].label} (${idx + 1})`}
+        >
+          <span className="text-2xl lg:text-3xl">{grades[grade].emoji}</span>
+          <span className="text-[10px] lg:text-xs uppercase">{grades[grade].label}</span>
+          <span className="text-[10px] lg:text-xs font-medium opacity-90">
+            {intervals ? formatInterval(intervals[grade]) : "…"}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default GradeButtons;
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Undo2 } from "lucide-react";
+import { clearUndoHistory } from "../services/LearningEngine";
+
+type UndoToastProps = {
+  // Changes every time an answer is recorded; each change shows the toast again
+  trigger: number;
+  onUndo: () => void;
+  duration?: number;
+};
+
+/**
+ * "Answer recorded · Undo" toast shown after each answer.
+ * Ctrl/Cmd+Z undoes as well, for as long as the screen is open.
+ */
+const UndoToast = ({ trigger, onUndo, duration = 5000 }: UndoToastProps) => {
+  const [visible, setVisible] = useState(false);
+
+  // A new screen can't undo answers given on another one
+  useEffect(() => {
+    clearUndoHistory();
+  }, []);
+
+  useEffect(() => {
+    if (trigger === 0) return;
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), duration);
+    return () => clearTimeout(timer);
+  }, [trigger, duration]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        setVisible(false);
+        onUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-2">
+      <div className="flex items-center gap-4 rounded-full bg-foreground text-background shadow-xl pl-5 pr-2 py-2">
+        <span className="text-sm">Answer recorded</span>
+        <button
+          type="button"
+          className="flex items-center gap-1 rounded-full px-3 py-1 text-sm font-bold hover:bg-background/20 transition-colors"
+          onClick={() => { setVisible(false); onUndo(); }}
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 className="h-4 w-4" /> Undo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { Word } from '../types';
+import {
+  ALL_WORDS_DECK_ID,
+  getDecks,
+  getActiveDeckId,
+  setActiveDeckId,
+  getDeckWords,
+  getAllWords,
+  type Deck
+} from '../services/Decks';
+
+interface DeckContextType {
+  decks: Deck[];
+  activeDeckId: string;
+  activeDeck: Deck | null; // null for the built-in "All words" deck
+  words: Word[]; // words of the active deck
+  allWords: Word[]; // every word, for lookups by id
+  selectDeck: (deckId: string) => Promise<void>;
+  reloadDecks: () => Promise<void>;
+}
+
+const DeckContext = createContext<DeckContextType | undefined>(undefined);
+
+export const DeckProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [activeDeckId, setActiveDeck] = useState(ALL_WORDS_DECK_ID);
+  const [loaded, setLoaded] = useState(false);
+
+  const reloadDecks = useCallback(async () => {
+    const [storedDecks, storedActiveId] = await Promise.all([getDecks(), getActiveDeckId()]);
+    setDecks(storedDecks);
+    setActiveDeck(storedDecks.some(d => d.id === storedActiveId) ? storedActiveId : ALL_WORDS_DECK_ID);
+  }, []);
+
+  useEffect(() => {
+    reloadDecks()
+      .catch((error) => console.error('Error loading decks:', error))
+      .finally(() => setLoaded(true));
+  }, [reloadDecks]);
+
+  const selectDeck = useCallback(async (deckId: string) => {
+    await setActiveDeckId(deckId);
+    setActiveDeck(deckId);
+  }, []);
+
+  const value = useMemo(() => {
+    const activeDeck = decks.find(d => d.id === activeDeckId) || null;
+    return {
+      decks,
+      activeDeckId: activeDeck ? activeDeckId : ALL_WORDS_DECK_ID,
+      activeDeck,
+      words: getDeckWords(activeDeck),
+      allWords: getAllWords(decks),
+      selectDeck,
+      reloadDecks
+    };
+  }, [decks, activeDeckId, selectDeck, reloadDecks]);
+
+  // Pages read their words on mount, so wait for the active deck
+  if (!loaded) return null;
+
+  return (
+    <DeckContext.Provider value={value}>
+      {children}
+    </DeckContext.Provider>
+  );
+};
+
+export const useDeck = () => {
+  const context = useContext(DeckContext);
+  if (context === undefined) {
+    throw new Error('useDeck must be used within a DeckProvider');
+  }
+  return context;
+};
@@ -3,6 +3,8 @@ import ReactDOM from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App";
 import { ThemeProvider } from "./context/ThemeContext";
+import { DeckProvider } from "./context/DeckContext";
+import { migrateStorage } from "./services/Storage";
 import "./index.css";
 
 const rootElement = document.getElementById("root");
@@ -11,15 +13,22 @@ if (!rootElement) {
   throw new Error("Root element not found");
 }
 
-ReactDOM.createRoot(rootElement).render(
-  <React.StrictMode>
-    <BrowserRouter basename="/learn-spanish-quickly/">
-      <ThemeProvider>
-        <App />
-      </ThemeProvider>
-    </BrowserRouter>
-  </React.StrictMode>
-);
+// Upgrade stored progress before any page reads it
+migrateStorage()
+  .catch((error) => console.error("Storage migration failed", error))
+  .finally(() => {
+    ReactDOM.createRoot(rootElement).render(
+      <React.StrictMode>
+        <BrowserRouter basename="/learn-spanish-quickly/">
+          <ThemeProvider>
+            <DeckProvider>
+              <App />
+            </DeckProvider>
+          </ThemeProvider>
+        </BrowserRouter>
+      </React.StrictMode>
+    );
+  });
 
 if ("serviceWorker" in navigator) {
   window.addEventListener("load", () => {
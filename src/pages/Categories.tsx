@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import wordsData from "../data/words.json";
+import { useNavigate } from "react-router-dom";
+import type { WordStats } from "../types";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent } from "../components/ui/Card";
 import { ProgressBar } from "../components/ui/ProgressBar";
@@ -35,17 +36,8 @@ import {
 import { getWordStats } from "../services/LearningEngine";
 import { speak, getTTSSettings } from "../services/TTSService";
 import { cn } from "../lib/utils";
-
-interface Word {
-  id: string;
-  spanish: string;
-  english: string;
-  category: string;
-  pronunciation?: string;
-  example?: string;
-}
-
-const words = wordsData as Word[];
+import DeckSelector from "../components/DeckSelector";
+import { useDeck } from "../context/DeckContext";
 
 // Category icon and color mapping - simplified and consistent
 const categoryStyles: Record<string, { icon: React.ReactNode; color: string; bg: string }> = {
@@ -89,13 +81,11 @@ const getCategoryStyle = (category: string) => {
   return categoryStyles.default;
 };
 
-interface WordProgress {
-  wordId: string;
-  level: number;
-  seen: number;
-}
+type WordProgress = Pick<WordStats, "wordId" | "level" | "seen">;
 
 const Categories = () => {
+  const navigate = useNavigate();
+  const { words } = useDeck();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [progressMap, setProgressMap] = useState<Map<string, WordProgress>>(new Map());
   const [searchQuery, setSearchQuery] = useState("");
@@ -192,9 +182,10 @@ const Categories = () => {
                 <Card
                   key={word.id}
                   className={cn(
-                    "border-l-4 hover:shadow-md transition-all",
+                    "border-l-4 hover:shadow-md transition-all cursor-pointer",
                     levelColors[level]
                   )}
+                  onClick={() => navigate(`/words/${word.id}`)}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start justify-between">
@@ -202,7 +193,7 @@ const Categories = () => {
                         <div className="flex items-center gap-2">
                           <h3 className="text-xl font-bold">{word.spanish}</h3>
                           <button
-                            onClick={() => handlePlayAudio(word.spanish)}
+                            onClick={(e) => { e.stopPropagation(); handlePlayAudio(word.spanish); }}
                             className="p-1.5 rounded-full hover:bg-muted transition-colors"
                           >
                             <Volume2 className="h-4 w-4 text-muted-foreground" />
@@ -247,6 +238,7 @@ const Categories = () => {
           <p className="text-muted-foreground text-lg">
             {words.length} words across {categories.length} categories
           </p>
+          <DeckSelector className="mt-3" />
 
           {/* Search */}
           <div className="mt-6 flex flex-col sm:flex-row gap-4">
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Card, CardContent } from "../components/ui/Card";
+import {
+  ArrowLeft, Check, Layers, Pencil, Play, Plus, Search, Trash2, X
+} from "lucide-react";
+import { useDeck } from "../context/DeckContext";
+import {
+  BUILT_IN_WORDS,
+  createDeck,
+  renameDeck,
+  deleteDeck,
+  addWordsToDeck,
+  addCustomWord,
+  removeWordFromDeck,
+  getDeckWords,
+  type Deck,
+  type NewWord
+} from "../services/Decks";
+import { cn } from "../lib/utils";
+
+// Most corpus matches listed at once while searching
+const MAX_SEARCH_RESULTS = 20;
+
+const EMPTY_WORD: NewWord = { spanish: "", english: "", category: "", example: "" };
+
+const Decks = () => {
+  const navigate = useNavigate();
+  const { decks, activeDeckId, selectDeck, reloadDecks } = useDeck();
+  const [newDeckName, setNewDeckName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [newWord, setNewWord] = useState<NewWord>(EMPTY_WORD);
+
+  const editingDeck = decks.find(d => d.id === editingId) || null;
+
+  const handleCreate = async () => {
+    if (!newDeckName.trim()) return;
+    const deck = await createDeck(newDeckName);
+    await reloadDecks();
+    setNewDeckName("");
+    setEditingId(deck.id);
+  };
+
+  const handleStartRename = (deck: Deck) => {
+    setRenamingId(deck.id);
+    setRenameText(deck.name);
+  };
+
+  const handleRename = async (deckId: string) => {
+    await renameDeck(deckId, renameText);
+    await reloadDecks();
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (deck: Deck) => {
+    const confirmed = window.confirm(
+      `Delete "${deck.name}"?\n\nThe words' progress is kept, but words you typed in for this deck can't be studied any more.`
+    );
+    if (confirmed) {
+      await deleteDeck(deck.id);
+      await reloadDecks();
+      if (editingId === deck.id) setEditingId(null);
+    }
+  };
+
+  const handleStudy = async (deckId: string) => {
+    await selectDeck(deckId);
+    navigate("/learn");
+  };
+
+  const handleAddWord = async (wordId: string) => {
+    if (!editingDeck) return;
+    await addWordsToDeck(editingDeck.id, [wordId]);
+    await reloadDecks();
+  };
+
+  const handleAddCategory = async (category: string) => {
+    if (!editingDeck) return;
+    await addWordsToDeck(editingDeck.id, BUILT_IN_WORDS.filter(w => w.category === category).map(w => w.id));
+    await reloadDecks();
+  };
+
+  const handleAddCustomWord = async () => {
+    if (!editingDeck || !newWord.spanish.trim() || !newWord.english.trim()) return;
+    await addCustomWord(editingDeck.id, {
+      spanish: newWord.spanish.trim(),
+      english: newWord.english.trim(),
+      category: newWord.category?.trim() || editingDeck.name,
+      ...(newWord.example?.trim() ? { example: newWord.example.trim() } : {})
+    });
+    await reloadDecks();
+    setNewWord(EMPTY_WORD);
+  };
+
+  const handleRemoveWord = async (wordId: string) => {
+    if (!editingDeck) return;
+    await removeWordFromDeck(editingDeck.id, wordId);
+    await reloadDecks();
+  };
+
+  const deckWords = editingDeck ? getDeckWords(editingDeck) : [];
+  const deckWordIds = new Set(deckWords.map(w => w.id));
+  const query = searchQuery.trim().toLowerCase();
+  const searchResults = query
+    ? BUILT_IN_WORDS
+      .filter(w => w.spanish.toLowerCase().includes(query) || w.english.toLowerCase().includes(query))
+      .slice(0, MAX_SEARCH_RESULTS)
+    : [];
+  const matchingCategories = query
+    ? Array.from(new Set(BUILT_IN_WORDS.map(w => w.category))).filter(c => c.toLowerCase().includes(query))
+    : [];
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-primary/5 via-background to-accent/5 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex items-center gap-3 mb-2">
+            <Layers className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl sm:text-4xl font-bold">Decks</h1>
+          </div>
+          <p className="text-muted-foreground text-lg">
+            Build word lists for a trip or a class. Progress on a word is shared by every deck it's in.
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        {/* New deck */}
+        <Card>
+          <CardContent className="p-5 flex gap-2">
+            <input
+              type="text"
+              value={newDeckName}
+              onChange={(e) => setNewDeckName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              placeholder="New deck name, e.g. Trip to Madrid"
+              className="flex-1 p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+            <Button onClick={handleCreate} disabled={!newDeckName.trim()}>
+              <Plus className="mr-2 h-4 w-4" /> Create
+            </Button>
+          </CardContent>
+        </Card>
+
+        {decks.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              No decks yet. Everything you study comes from all words.
+            </CardContent>
+          </Card>
+        )}
+
+        {decks.map(deck => {
+          const count = deck.wordIds.length + deck.customWords.length;
+          return (
+            <Card key={deck.id} className={cn(editingId === deck.id && "border-primary")}>
+              <CardContent className="p-5">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  {renamingId === deck.id ? (
+                    <div className="flex flex-1 gap-2">
+                      <input
+                        type="text"
+                        value={renameText}
+                        onChange={(e) => setRenameText(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleRename(deck.id)}
+                        autoFocus
+                        className="flex-1 p-2 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                      />
+                      <Button size="sm" onClick={() => handleRename(deck.id)}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRenamingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div>
+                      <h2 className="text-xl font-bold flex items-center gap-2">
+                        {deck.name}
+                        {activeDeckId === deck.id && (
+                          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary">Studying</span>
+                        )}
+                      </h2>
+                      <p className="text-sm text-muted-foreground">{count} {count === 1 ? "word" : "words"}</p>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" onClick={() => handleStudy(deck.id)} disabled={count === 0}>
+                      <Play className="mr-2 h-4 w-4" /> Study
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setEditingId(editingId === deck.id ? null : deck.id)}
+                    >
+                      <Plus className="mr-2 h-4 w-4" /> {editingId === deck.id ? "Done" : "Words"}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleStartRename(deck)} title="Rename">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(deck)} title="Delete">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+
+                {editingDeck?.id === deck.id && (
+                  <div className="mt-6 space-y-6">
+                    {/* Add from the built-in words */}
+                    <div>
+                      <label className="text-sm font-medium block mb-2">Add built-in words</label>
+                      <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <input
+                          type="text"
+                          value={searchQuery}
+                          onChange={(e) => setSearchQuery(e.target.value)}
+                          placeholder="Search Spanish, English or a category"
+                          className="w-full pl-9 p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                      </div>
+                      {matchingCategories.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {matchingCategories.map(category => (
+                            <button
+                              key={category}
+                              type="button"
+                              onClick={() => handleAddCategory(category)}
+                              className="px-3 py-1 rounded-full border text-xs font-medium hover:border-primary/50 transition-colors"
+                            >
+                              + All of {category}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {searchResults.length > 0 && (
+                        <div className="mt-3 divide-y rounded-lg border">
+                          {searchResults.map(word => (
+                            <div key={word.id} className="flex items-center justify-between gap-3 p-2 text-sm">
+                              <span>
+                                <strong>{word.spanish}</strong>
+                                <span className="text-muted-foreground"> · {word.english}</span>
+                              </span>
+                              {deckWordIds.has(word.id) ? (
+                                <Check className="h-4 w-4 text-green-600 shrink-0" />
+                              ) : (
+                                <Button size="sm" variant="ghost" onClick={() => handleAddWord(word.id)} title="Add">
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Add a new word */}
+                    <div>
+                      <label className="text-sm font-medium block mb-2">Add your own word</label>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={newWord.spanish}
+                          onChange={(e) => setNewWord(w => ({ ...w, spanish: e.target.value }))}
+                          placeholder="Spanish"
+                          className="p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <input
+                          type="text"
+                          value={newWord.english}
+                          onChange={(e) => setNewWord(w => ({ ...w, english: e.target.value }))}
+                          placeholder="English"
+                          className="p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <input
+                          type="text"
+                          value={newWord.category}
+                          onChange={(e) => setNewWord(w => ({ ...w, category: e.target.value }))}
+                          placeholder={`Category (default: ${deck.name})`}
+                          className="p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <input
+                          type="text"
+                          value={newWord.example}
+                          onChange={(e) => setNewWord(w => ({ ...w, example: e.target.value }))}
+                          placeholder="Example sentence (optional)"
+                          className="p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                      </div>
+                      <Button
+                        variant="secondary"
+                        className="mt-2"
+                        onClick={handleAddCustomWord}
+                        disabled={!newWord.spanish.trim() || !newWord.english.trim()}
+                      >
+                        <Plus className="mr-2 h-4 w-4" /> Add Word
+                      </Button>
+                    </div>
+
+                    {/* Words in the deck */}
+                    <div>
+                      <p className="text-sm font-medium mb-2">In this deck</p>
+                      {deckWords.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No words yet.</p>
+                      ) : (
+                        <div className="divide-y rounded-lg border">
+                          {deckWords.map(word => (
+                            <div key={word.id} className="flex items-center justify-between gap-3 p-2 text-sm">
+                              <span
+                                className="cursor-pointer hover:underline"
+                                onClick={() => navigate(`/words/${word.id}`)}
+                              >
+                                <strong>{word.spanish}</strong>
+                                <span className="text-muted-foreground"> · {word.english}</span>
+                              </span>
+                              <Button size="sm" variant="ghost" onClick={() => handleRemoveWord(word.id)} title="Remove">
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Decks;
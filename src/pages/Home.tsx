@@ -1,21 +1,10 @@
 import { useEffect, useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
-import wordsData from "../data/words.json";
+import type { Word } from "../types";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { StatBadge } from "../components/ui/StatBadge";
 import { ProgressBar } from "../components/ui/ProgressBar";
-
-interface Word {
-  id: string;
-  spanish: string;
-  english: string;
-  category: string;
-  pronunciation?: string;
-  example?: string;
-}
-
-const words = wordsData as Word[];
 import {
   BookOpen,
   RotateCw,
@@ -29,19 +18,38 @@ import {
   Zap,
   Brain,
   Calendar,
-  ArrowRight
+  ArrowRight,
+  Snowflake,
+  Palmtree,
+  Flag,
+  AlertTriangle,
+  Crosshair
 } from "lucide-react";
 import { cn } from "../lib/utils";
 import {
   getProgressSummary,
   buildDailyQueue,
   getSettings,
+  getReviewForecast,
+  getStreakFreezes,
+  getVacation,
+  endVacation,
+  getCommonMistakes,
   ProgressSummary,
-  DailyQueue
+  DailyQueue,
+  ForecastDay,
+  VacationState,
+  MistakeSummary
 } from "../services/LearningEngine";
+import { SKILLS, SKILL_LABELS } from "../services/SkillCards";
+import { refreshStudyPlan, getPlanProgress, exceedsReviewLimit, getPeakReviews, StudyPlan, PlanProgress } from "../services/Planner";
+import { daysBetween } from "../utils/date";
+import { MISTAKE_LABELS } from "../utils/text";
+import DeckSelector from "../components/DeckSelector";
+import { useDeck } from "../context/DeckContext";
 
 // Word of the day - pick based on date
-const getWordOfDay = () => {
+const getWordOfDay = (words: Word[]) => {
   const today = new Date();
   const dayOfYear = Math.floor((today.getTime() - new Date(today.getFullYear(), 0, 0).getTime()) / 86400000);
   const index = dayOfYear % words.length;
@@ -50,23 +58,49 @@ const getWordOfDay = () => {
 
 const Home = () => {
   const navigate = useNavigate();
+  const { words, allWords } = useDeck();
   const [progress, setProgress] = useState<ProgressSummary | null>(null);
   const [queue, setQueue] = useState<DailyQueue | null>(null);
   const [dailyGoal, setDailyGoal] = useState(15);
+  const [forecast, setForecast] = useState<ForecastDay[]>([]);
+  const [reviewBudget, setReviewBudget] = useState(100);
+  const [streakFreezes, setStreakFreezes] = useState(0);
+  const [vacation, setVacation] = useState<VacationState | null>(null);
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [planProgress, setPlanProgress] = useState<PlanProgress | null>(null);
+  const [fellBehind, setFellBehind] = useState(false);
+  const [mistakes, setMistakes] = useState<MistakeSummary[]>([]);
   const [loading, setLoading] = useState(true);
-  const wordOfDay = getWordOfDay();
+  const wordOfDay = getWordOfDay(words.length > 0 ? words : allWords);
 
   useEffect(() => {
     async function loadData() {
       try {
-        const [progressData, settings] = await Promise.all([
+        // Re-planning may change today's new-word limit, so it goes first
+        const planState = await refreshStudyPlan(allWords);
+        if (planState) {
+          setPlan(planState.plan);
+          setFellBehind(planState.fellBehind);
+          setPlanProgress(await getPlanProgress(allWords, planState.plan));
+        }
+
+        const [progressData, settings, forecastData, freezes, vacationState, mistakeData] = await Promise.all([
           getProgressSummary(words),
-          getSettings()
+          getSettings(),
+          getReviewForecast(words, 14),
+          getStreakFreezes(),
+          getVacation(),
+          getCommonMistakes()
         ]);
         setProgress(progressData);
         setDailyGoal(settings.dailyGoal);
+        setForecast(forecastData);
+        setReviewBudget(settings.maxReviewsPerDay);
+        setStreakFreezes(freezes);
+        setVacation(vacationState);
+        setMistakes(mistakeData);
 
-        const queueData = await buildDailyQueue(words, settings.dailyGoal);
+        const queueData = await buildDailyQueue(words);
         setQueue(queueData);
       } catch (error) {
         console.error('Error loading progress:', error);
@@ -75,7 +109,14 @@ const Home = () => {
       }
     }
     loadData();
-  }, []);
+  }, [words, allWords]);
+
+  const handleEndVacation = async () => {
+    await endVacation();
+    setVacation(null);
+    setForecast(await getReviewForecast(words, 14));
+    setQueue(await buildDailyQueue(words));
+  };
 
   if (loading) {
     return (
@@ -88,6 +129,22 @@ const Home = () => {
   const todayProgress = progress ? Math.min(100, Math.round((progress.wordsLearned / dailyGoal) * 100)) : 0;
   const dueCount = queue?.dueWords.length || 0;
   const totalToStudy = queue?.total || 0;
+  const forecastPeak = Math.max(1, ...forecast.map(d => d.due));
+  const planDaysLeft = plan ? Math.max(0, daysBetween(plan.plannedOn, plan.targetDate)) : 0;
+  const planReviews = plan ? plan.projectedReviews.slice(0, 28) : [];
+  const planReviewPeak = Math.max(1, ...planReviews);
+  const mistakePeak = Math.max(1, ...mistakes.map(m => m.count));
+  const knownIds = new Set(allWords.map(w => w.id));
+
+  // Practise the words behind one kind of mistake in Type It
+  const handleDrill = (summary: MistakeSummary) => {
+    navigate("/games/type-it", {
+      state: {
+        wordIds: summary.wordIds.filter(id => knownIds.has(id)).slice(0, 10),
+        title: MISTAKE_LABELS[summary.type]
+      }
+    });
+  };
 
   return (
     <div className="min-h-screen pb-20">
@@ -106,6 +163,7 @@ const Home = () => {
                 <p className="text-lg sm:text-xl text-muted-foreground">
                   Ready to learn some Spanish today?
                 </p>
+                <DeckSelector />
               </div>
 
               {/* Daily Progress Ring */}
@@ -182,6 +240,26 @@ const Home = () => {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
 
+        {/* Vacation */}
+        {vacation && (
+          <Card className="mb-6 border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-950/30">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Palmtree className="text-emerald-600 shrink-0" size={24} />
+                <div>
+                  <p className="font-medium text-emerald-800 dark:text-emerald-200">On vacation since {vacation.since}</p>
+                  <p className="text-sm text-emerald-700 dark:text-emerald-300">
+                    Your streak and reviews are paused. Due dates move forward when you return.
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleEndVacation}>
+                I'm back
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Grid - Responsive */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
           <Card
@@ -194,6 +272,9 @@ const Home = () => {
               </div>
               <p className="text-3xl sm:text-4xl font-bold">{progress?.streak || 0}</p>
               <p className="text-sm text-muted-foreground">Day Streak</p>
+              <p className="text-xs text-sky-600 dark:text-sky-400 mt-1 flex items-center justify-center gap-1">
+                <Snowflake size={12} /> {streakFreezes} {streakFreezes === 1 ? "freeze" : "freezes"} left
+              </p>
             </CardContent>
           </Card>
 
@@ -362,9 +443,112 @@ const Home = () => {
                       <span>🏆 Mastered</span>
                     </p>
                   </div>
+
+                  {/* Skill breakdown */}
+                  {progress && (
+                    <div className="mt-6">
+                      <p className="text-sm font-medium mb-3 flex items-center gap-2">
+                        <Brain size={16} className="text-muted-foreground" />
+                        Words by Skill
+                      </p>
+                      <div className="space-y-2">
+                        {SKILLS.map(skill => {
+                          const { practised, mastered } = progress.bySkill[skill];
+                          return (
+                            <div key={skill} className="flex items-center gap-3">
+                              <span className="w-24 text-sm">{SKILL_LABELS[skill]}</span>
+                              <ProgressBar value={(mastered / (progress.totalWords || 1)) * 100} className="flex-1 h-2" />
+                              <span className="text-xs text-muted-foreground w-28 text-right">
+                                {mastered} mastered / {practised}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Review Forecast */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar size={20} className="text-primary" />
+                  Review Forecast
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-1 h-32">
+                  {forecast.map((day, idx) => {
+                    const height = Math.max(4, (day.due / forecastPeak) * 100);
+                    const overBudget = day.due > reviewBudget;
+                    return (
+                      <div
+                        key={day.date}
+                        className="flex-1 flex flex-col items-center justify-end h-full group"
+                        title={`${day.date}: ${day.due} reviews`}
+                      >
+                        <span className="text-[10px] font-bold text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity">
+                          {day.due}
+                        </span>
+                        <div
+                          className={cn(
+                            "w-full rounded-t-md transition-all duration-500",
+                            overBudget ? "bg-red-400" : idx === 0 ? "bg-primary" : "bg-primary/40"
+                          )}
+                          style={{ height: `${height}%` }}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>Today</span>
+                  <span>+7d</span>
+                  <span>+{Math.max(0, forecast.length - 1)}d</span>
                 </div>
               </CardContent>
             </Card>
+
+            {/* Common Mistakes */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Crosshair size={20} className="text-primary" />
+                  My Common Mistakes
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {mistakes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No mistakes in typed or spoken answers yet. Slip-ups show up here, grouped by kind.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {mistakes.map(summary => {
+                      const drillable = summary.wordIds.some(id => knownIds.has(id));
+                      return (
+                        <div key={summary.type} className="flex items-center gap-3">
+                          <span className="w-44 text-sm truncate" title={MISTAKE_LABELS[summary.type]}>{MISTAKE_LABELS[summary.type]}</span>
+                          <ProgressBar value={(summary.count / mistakePeak) * 100} className="flex-1 h-2" />
+                          <span className="text-xs text-muted-foreground w-8 text-right">{summary.count}</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDrill(summary)}
+                            disabled={!drillable}
+                          >
+                            Drill
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Right Column - Quick Actions + Categories */}
@@ -431,6 +615,12 @@ const Home = () => {
                       <span className="text-muted-foreground">New words:</span>
                       <span className="font-medium">{queue.newWords.length}</span>
                     </div>
+                    {queue.backlog > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Carried over:</span>
+                        <span className="font-medium">{queue.backlog}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Estimated time:</span>
                       <span className="font-medium">~{queue.estimatedMinutes} min</span>
@@ -440,6 +630,79 @@ const Home = () => {
               </Card>
             )}
 
+            {/* Study Plan */}
+            {plan && planProgress && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Flag size={20} className="text-primary" />
+                    Study Plan
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <p className="font-medium">
+                      {plan.goal === "see" ? "See" : "Master"} {plan.categories.length === 0 ? "every word" : plan.categories.join(", ")}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      by {plan.targetDate} · {planDaysLeft} {planDaysLeft === 1 ? "day" : "days"} left
+                    </p>
+                  </div>
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-muted-foreground">{plan.goal === "see" ? "Seen" : "Mastered"}</span>
+                      <span className="font-medium">{planProgress.done}/{planProgress.total}</span>
+                    </div>
+                    <ProgressBar value={(planProgress.done / (planProgress.total || 1)) * 100} className="h-2" />
+                  </div>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">New words per day:</span>
+                      <span className="font-medium">{plan.newPerDay}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Busiest review day:</span>
+                      <span className={cn("font-medium", exceedsReviewLimit(plan) && "text-amber-600 dark:text-amber-400")}>
+                        {getPeakReviews(plan)}
+                      </span>
+                    </div>
+                  </div>
+                  {planReviews.length > 0 && (
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Projected reviews</p>
+                      <div className="flex items-end gap-0.5 h-16">
+                        {planReviews.map((count, idx) => (
+                          <div
+                            key={idx}
+                            className={cn("flex-1 rounded-t-sm", plan.projectedBacklog[idx] > 0 ? "bg-red-400" : idx === 0 ? "bg-primary" : "bg-primary/40")}
+                            style={{ height: `${Math.max(4, (count / planReviewPeak) * 100)}%` }}
+                            title={`+${idx}d: ${count} reviews${plan.projectedBacklog[idx] > 0 ? `, ${plan.projectedBacklog[idx]} waiting` : ""}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {!plan.feasible ? (
+                    <p className="text-sm text-red-600 dark:text-red-400 flex items-start gap-2">
+                      <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                      Even {plan.newPerDay} new words a day won't make this date. Pick a later one in Settings.
+                    </p>
+                  ) : fellBehind && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400 flex items-start gap-2">
+                      <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                      You fell behind, so the plan now asks for more new words a day.
+                    </p>
+                  )}
+                  {exceedsReviewLimit(plan) && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400 flex items-start gap-2">
+                      <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                      Some days have more reviews due than your {reviewBudget} a day. The plan waits them out, but they come back overdue.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Motivational */}
             <Card className="bg-gradient-to-br from-orange-50 to-amber-50 dark:from-orange-950/30 dark:to-amber-950/30 border-orange-200 dark:border-orange-800">
               <CardContent className="p-4 sm:p-6 text-center">
@@ -0,0 +1,280 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import { AlertTriangle, ArrowLeft, Check, FileUp, Upload } from "lucide-react";
+import { useDeck } from "../context/DeckContext";
+import { BUILT_IN_WORDS, createDeck, addCustomWords } from "../services/Decks";
+import { parseAnkiNotes, matchExistingWords } from "../services/Anki";
+import { importSchedules } from "../services/LearningEngine";
+import { decodeWordFile, generateWordId } from "../utils/wordImport";
+import { cn } from "../lib/utils";
+
+// Notes shown in the preview
+const PREVIEW_ROWS = 20;
+
+// Value of the "new deck" choice in the deck select
+const NEW_DECK = "new";
+
+const ImportAnki = () => {
+  const navigate = useNavigate();
+  const { decks, allWords, reloadDecks } = useDeck();
+  const [text, setText] = useState("");
+  const [swapSides, setSwapSides] = useState(false);
+  const [deckChoice, setDeckChoice] = useState(NEW_DECK);
+  const [newDeckName, setNewDeckName] = useState("");
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [keepSchedules, setKeepSchedules] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+
+  const handleFile = async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!newDeckName) setNewDeckName(file.name.replace(/\.[^.]+$/, ""));
+    setText(decodeWordFile(bytes));
+    setMessage(null);
+  };
+
+  // Words already in the app, by the id the Spanish would get
+  const existingIds = useMemo(() => new Set([
+    ...BUILT_IN_WORDS.map(w => w.id),
+    ...allWords.map(w => generateWordId(w.spanish))
+  ]), [allWords]);
+
+  const result = useMemo(
+    () => text.trim() ? parseAnkiNotes(text, swapSides, existingIds) : null,
+    [text, swapSides, existingIds]
+  );
+
+  // Words already in the app, e.g. from re-importing the app's own export
+  const matches = useMemo(
+    () => result ? matchExistingWords(result.notes, allWords) : [],
+    [result, allWords]
+  );
+
+  const notes = result ? result.notes.map((note, i) => ({ ...note, existing: matches[i] })) : [];
+  const isDuplicate = (note: typeof notes[number]) => note.duplicate || note.existing !== null;
+  const duplicateCount = notes.filter(isDuplicate).length;
+  const toImport = notes.filter(n => !skipDuplicates || !isDuplicate(n));
+  // Skipped notes for words in the app bring their schedule to that word
+  const toReschedule = skipDuplicates && keepSchedules
+    ? notes.flatMap(n => n.existing && n.interval !== null
+        ? [{ wordId: n.existing.id, interval: n.interval, nextDue: n.due }]
+        : [])
+    : [];
+
+  const handleImport = async () => {
+    if (!result || toImport.length + toReschedule.length === 0) return;
+    setImporting(true);
+    try {
+      const words = toImport.length === 0 ? [] : await addCustomWords(
+        deckChoice === NEW_DECK ? (await createDeck(newDeckName || "Anki import")).id : deckChoice,
+        toImport.map(({ word: { id: _id, ...fields } }) => fields)
+      );
+      // New words come back in the order given, so match them up by position
+      const scheduled = keepSchedules && result.hasSchedules
+        ? await importSchedules(toImport.flatMap((note, i) => note.interval === null ? [] : [{
+            wordId: words[i].id,
+            interval: note.interval,
+            nextDue: note.due
+          }]))
+        : 0;
+      const rescheduled = await importSchedules(toReschedule);
+      await reloadDecks();
+      setMessage({
+        text: `Imported ${words.length} ${words.length === 1 ? "word" : "words"}`
+          + (scheduled > 0 ? `, ${scheduled} already scheduled` : "")
+          + (rescheduled > 0 ? `, and updated the schedule of ${rescheduled} ${rescheduled === 1 ? "word" : "words"} already in the app.` : "."),
+        ok: true
+      });
+      setText("");
+    } catch (error) {
+      console.error("Anki import error:", error);
+      setMessage({ text: "Couldn't import. Please try again.", ok: false });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-primary/5 via-background to-accent/5 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex items-center gap-3 mb-2">
+            <FileUp className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl sm:text-4xl font-bold">Import from Anki</h1>
+          </div>
+          <p className="text-muted-foreground text-lg">
+            In Anki, export your deck as "Notes in Plain Text" with tags included, then open the file here.
+            Anki's export has no review intervals, so words start as new; only files exported from this app bring their intervals back.
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {message && (
+          <div className={cn(
+            "flex items-center justify-between gap-3 rounded-lg p-4",
+            message.ok
+              ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200"
+              : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200"
+          )}>
+            <span className="flex items-center gap-2">
+              {message.ok ? <Check className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />} {message.text}
+            </span>
+            {message.ok && (
+              <Button size="sm" variant="outline" onClick={() => navigate("/decks")}>View Decks</Button>
+            )}
+          </div>
+        )}
+
+        {/* Source */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload size={18} /> File
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <input
+              type="file"
+              accept=".txt,.tsv,.csv,text/plain,text/tab-separated-values"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              className="block w-full text-sm file:mr-3 file:rounded-lg file:border-0 file:bg-secondary file:px-4 file:py-2 file:font-medium"
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={swapSides}
+                onChange={(e) => setSwapSides(e.target.checked)}
+                className="accent-primary"
+              />
+              The front of my cards is in English
+            </label>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <>
+            {/* Preview */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {notes.length} words · {duplicateCount} already in the app · {result.skipped} notes without a front or back
+                </p>
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-secondary/50 text-left">
+                      <tr>
+                        <th className="p-2">#</th>
+                        <th className="p-2">Spanish</th>
+                        <th className="p-2">English</th>
+                        <th className="p-2">Category</th>
+                        {result.hasSchedules && <th className="p-2">Interval</th>}
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {notes.slice(0, PREVIEW_ROWS).map(note => (
+                        <tr key={note.row} className={cn("border-t", isDuplicate(note) && "bg-amber-50 dark:bg-amber-900/20")}>
+                          <td className="p-2 text-muted-foreground">{note.row}</td>
+                          <td className="p-2 font-medium">{note.word.spanish}</td>
+                          <td className="p-2">{note.word.english}</td>
+                          <td className="p-2 text-muted-foreground">{note.word.category}</td>
+                          {result.hasSchedules && (
+                            <td className="p-2 text-muted-foreground">{note.interval !== null ? `${Math.round(note.interval)}d` : "New"}</td>
+                          )}
+                          <td className="p-2 text-xs text-amber-700 dark:text-amber-300">
+                            {note.existing ? "In the app" : note.duplicate && "Duplicate"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {notes.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">…and {notes.length - PREVIEW_ROWS} more</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Import */}
+            <Card>
+              <CardContent className="p-5 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="text-sm">
+                    <span className="font-medium block mb-1">Into deck</span>
+                    <select
+                      value={deckChoice}
+                      onChange={(e) => setDeckChoice(e.target.value)}
+                      className="w-full p-2 rounded-lg border bg-card text-foreground"
+                    >
+                      <option value={NEW_DECK}>New deck</option>
+                      {decks.map(deck => (
+                        <option key={deck.id} value={deck.id}>{deck.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {deckChoice === NEW_DECK && (
+                    <label className="text-sm">
+                      <span className="font-medium block mb-1">Deck name</span>
+                      <input
+                        type="text"
+                        value={newDeckName}
+                        onChange={(e) => setNewDeckName(e.target.value)}
+                        placeholder="Anki import"
+                        className="w-full p-2 rounded-lg border bg-card text-foreground"
+                      />
+                    </label>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    className="accent-primary"
+                  />
+                  Skip duplicates ({duplicateCount})
+                </label>
+                {result.hasSchedules ? (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={keepSchedules}
+                      onChange={(e) => setKeepSchedules(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    Keep review intervals, so known words start at their level instead of as new.
+                    Skipped words that are already in the app take the interval from the file.
+                  </label>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    This file has no review intervals, so new words start as new and words already in the app keep their schedules.
+                    Intervals only come back from files exported by this app, not from files exported by Anki.
+                  </p>
+                )}
+                <Button className="w-full" onClick={handleImport} disabled={importing || toImport.length + toReschedule.length === 0}>
+                  {importing
+                    ? "Importing..."
+                    : toImport.length === 0
+                      ? `Update ${toReschedule.length} ${toReschedule.length === 1 ? "Schedule" : "Schedules"}`
+                      : `Import ${toImport.length} ${toImport.length === 1 ? "Word" : "Words"}`}
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportAnki;
@@ -0,0 +1,324 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
+import { AlertTriangle, ArrowLeft, Check, FileUp, Table, Upload } from "lucide-react";
+import { useDeck } from "../context/DeckContext";
+import { BUILT_IN_WORDS, createDeck, addCustomWords } from "../services/Decks";
+import {
+  WORD_FIELDS,
+  decodeWordFile,
+  detectDelimiter,
+  parseWordTable,
+  detectColumns,
+  convertWordTable,
+  generateWordId,
+  type ColumnMapping,
+  type Delimiter,
+  type WordField
+} from "../utils/wordImport";
+import { cn } from "../lib/utils";
+
+const FIELD_LABELS: Record<WordField, string> = {
+  spanish: "Spanish",
+  english: "English",
+  category: "Category",
+  pronunciation: "Pronunciation",
+  example: "Example"
+};
+
+const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab"
+};
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 20;
+
+// Value of the "new deck" choice in the deck select
+const NEW_DECK = "new";
+
+const ImportWords = () => {
+  const navigate = useNavigate();
+  const { decks, allWords, reloadDecks } = useDeck();
+  const [text, setText] = useState("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [deckChoice, setDeckChoice] = useState(NEW_DECK);
+  const [newDeckName, setNewDeckName] = useState("");
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+
+  // Read the pasted or chosen text, detecting delimiter and columns afresh
+  const loadText = (content: string) => {
+    const detected = detectDelimiter(content);
+    setText(content);
+    setDelimiter(detected);
+    setMessage(null);
+    // Keep manual column choices while only the rows change
+    const headers = parseWordTable(content, detected).headers;
+    if (!table || detected !== delimiter || headers.join("\t") !== table.headers.join("\t")) {
+      setMapping(detectColumns(headers));
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!newDeckName) setNewDeckName(file.name.replace(/\.[^.]+$/, ""));
+    loadText(decodeWordFile(bytes));
+  };
+
+  const handleChangeDelimiter = (value: Delimiter) => {
+    setDelimiter(value);
+    setMapping(detectColumns(parseWordTable(text, value).headers));
+  };
+
+  // Words already in the app, by the id the Spanish would get
+  const existingIds = useMemo(() => new Set([
+    ...BUILT_IN_WORDS.map(w => w.id),
+    ...allWords.map(w => generateWordId(w.spanish))
+  ]), [allWords]);
+
+  const table = useMemo(
+    () => text.trim() ? parseWordTable(text, delimiter) : null,
+    [text, delimiter]
+  );
+
+  const result = useMemo(
+    () => table && mapping ? convertWordTable(table, mapping, existingIds) : null,
+    [table, mapping, existingIds]
+  );
+
+  const missingRequired = !mapping || mapping.spanish === null || mapping.english === null;
+  const duplicateCount = result?.rows.filter(r => r.duplicate).length || 0;
+  const toImport = result ? result.rows.filter(r => !skipDuplicates || !r.duplicate) : [];
+
+  const handleImport = async () => {
+    if (!result || missingRequired || toImport.length === 0) return;
+    setImporting(true);
+    try {
+      const deckId = deckChoice === NEW_DECK
+        ? (await createDeck(newDeckName || "Imported words")).id
+        : deckChoice;
+      await addCustomWords(deckId, toImport.map(({ word: { id: _id, ...fields } }) => fields));
+      await reloadDecks();
+      setMessage({ text: `Imported ${toImport.length} ${toImport.length === 1 ? "word" : "words"}.`, ok: true });
+      setText("");
+      setMapping(null);
+    } catch (error) {
+      console.error("Import error:", error);
+      setMessage({ text: "Couldn't import. Please try again.", ok: false });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-primary/5 via-background to-accent/5 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex items-center gap-3 mb-2">
+            <FileUp className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl sm:text-4xl font-bold">Import Words</h1>
+          </div>
+          <p className="text-muted-foreground text-lg">
+            Bring in a vocabulary list from a spreadsheet as CSV or TSV. It becomes a deck you can study.
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {message && (
+          <div className={cn(
+            "flex items-center justify-between gap-3 rounded-lg p-4",
+            message.ok
+              ? "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200"
+              : "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200"
+          )}>
+            <span className="flex items-center gap-2">
+              {message.ok ? <Check className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />} {message.text}
+            </span>
+            {message.ok && (
+              <Button size="sm" variant="outline" onClick={() => navigate("/decks")}>View Decks</Button>
+            )}
+          </div>
+        )}
+
+        {/* Source */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload size={18} /> File
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              className="block w-full text-sm file:mr-3 file:rounded-lg file:border-0 file:bg-secondary file:px-4 file:py-2 file:font-medium"
+            />
+            <textarea
+              value={text}
+              onChange={(e) => loadText(e.target.value)}
+              placeholder={"Or paste here, with a header row:\nspanish,english,category\nla playa,the beach,Travel"}
+              rows={6}
+              className="w-full p-3 rounded-lg border bg-card font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </CardContent>
+        </Card>
+
+        {table && mapping && (
+          <>
+            {/* Columns */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Table size={18} /> Columns
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="text-sm">
+                    <span className="font-medium block mb-1">Separator</span>
+                    <select
+                      value={delimiter}
+                      onChange={(e) => handleChangeDelimiter(e.target.value as Delimiter)}
+                      className="w-full p-2 rounded-lg border bg-card text-foreground"
+                    >
+                      {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(d => (
+                        <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {WORD_FIELDS.map(field => (
+                    <label key={field} className="text-sm">
+                      <span className="font-medium block mb-1">
+                        {FIELD_LABELS[field]}
+                        {(field === "spanish" || field === "english") && <span className="text-red-500"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field] ?? ""}
+                        onChange={(e) => setMapping({
+                          ...mapping,
+                          [field]: e.target.value === "" ? null : Number(e.target.value)
+                        })}
+                        className="w-full p-2 rounded-lg border bg-card text-foreground"
+                      >
+                        <option value="">(none)</option>
+                        {table.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                {missingRequired && (
+                  <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" /> Pick the Spanish and English columns.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            {result && !missingRequired && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    {result.rows.length} words · {duplicateCount} already in the app · {result.skipped} rows without Spanish or English
+                  </p>
+                  <div className="overflow-x-auto rounded-lg border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-secondary/50 text-left">
+                        <tr>
+                          <th className="p-2">#</th>
+                          <th className="p-2">Spanish</th>
+                          <th className="p-2">English</th>
+                          <th className="p-2">Category</th>
+                          <th className="p-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.rows.slice(0, PREVIEW_ROWS).map(({ row, word, duplicate }) => (
+                          <tr key={row} className={cn("border-t", duplicate && "bg-amber-50 dark:bg-amber-900/20")}>
+                            <td className="p-2 text-muted-foreground">{row}</td>
+                            <td className="p-2 font-medium">{word.spanish}</td>
+                            <td className="p-2">{word.english}</td>
+                            <td className="p-2 text-muted-foreground">{word.category}</td>
+                            <td className="p-2 text-xs text-amber-700 dark:text-amber-300">{duplicate && "Duplicate"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {result.rows.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground">…and {result.rows.length - PREVIEW_ROWS} more</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Import */}
+            {result && !missingRequired && (
+              <Card>
+                <CardContent className="p-5 space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="text-sm">
+                      <span className="font-medium block mb-1">Into deck</span>
+                      <select
+                        value={deckChoice}
+                        onChange={(e) => setDeckChoice(e.target.value)}
+                        className="w-full p-2 rounded-lg border bg-card text-foreground"
+                      >
+                        <option value={NEW_DECK}>New deck</option>
+                        {decks.map(deck => (
+                          <option key={deck.id} value={deck.id}>{deck.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {deckChoice === NEW_DECK && (
+                      <label className="text-sm">
+                        <span className="font-medium block mb-1">Deck name</span>
+                        <input
+                          type="text"
+                          value={newDeckName}
+                          onChange={(e) => setNewDeckName(e.target.value)}
+                          placeholder="Imported words"
+                          className="w-full p-2 rounded-lg border bg-card text-foreground"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={skipDuplicates}
+                      onChange={(e) => setSkipDuplicates(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    Skip duplicates ({duplicateCount})
+                  </label>
+                  <Button className="w-full" onClick={handleImport} disabled={importing || toImport.length === 0}>
+                    {importing ? "Importing..." : `Import ${toImport.length} ${toImport.length === 1 ? "Word" : "Words"}`}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportWords;
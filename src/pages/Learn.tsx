@@ -1,19 +1,9 @@
-import { useState, useEffect } from "react";
-import wordsData from "../data/words.json";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { Word } from "../types";
 import { speak, isTTSSupported, getTTSSettings } from "../services/TTSService";
 import { startListening, stopListening, isSTTSupported } from "../services/STTService";
-
-interface Word {
-  id: string;
-  spanish: string;
-  english: string;
-  category: string;
-  pronunciation?: string;
-  example?: string;
-}
-
-const words = wordsData as Word[];
-import { evaluateMatch } from "../utils/text";
+import { evaluateAnswers, getAcceptedAnswers, isAcceptedOutcome, classifyMistakes, type AccentStrictness, type MatchOutcome, type AccentMistake } from "../utils/text";
+import { runExclusive } from "../utils/async";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent } from "../components/ui/Card";
 import { ProgressBar } from "../components/ui/ProgressBar";
@@ -22,7 +12,6 @@ import {
   Mic,
   MicOff,
   AlertTriangle,
-  RotateCcw,
   Check,
   X,
   Rocket,
@@ -40,36 +29,123 @@ import {
   getDailySessionQueue,
   updateStatsOnResult,
   toggleHardFlag,
-  getSettings,
   getProgressSummary,
   buildDailyQueue,
+  getGradePreview,
+  getWordStats,
+  getSkillsToDrill,
+  recordSession,
+  undoLastAnswer,
+  requeueLearningCard,
+  advanceSession,
   DailyQueue,
-  ProgressSummary
+  LearningCard,
+  ProgressSummary,
+  getSettings
 } from "../services/LearningEngine";
+import type { ReviewGrade } from "../services/Scheduler";
+import { SKILL_LABELS, type Skill } from "../services/SkillCards";
+import GradeButtons from "../components/GradeButtons";
+import UndoToast from "../components/UndoToast";
+import DeckSelector from "../components/DeckSelector";
+import AccentFeedback from "../components/AccentFeedback";
+import { useDeck } from "../context/DeckContext";
+
+// Session state to go back to when an answer is undone
+type LearnSnapshot = {
+  words: Word[];
+  index: number;
+  learning: LearningCard[];
+  stats: { correct: number; wrong: number };
+};
 
 const Learn = () => {
+  const { words } = useDeck();
   const [sessionActive, setSessionActive] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [flipped, setFlipped] = useState(false);
   const [sessionWords, setSessionWords] = useState<Word[]>([]);
+  const [sessionSkills, setSessionSkills] = useState<Record<string, Skill>>({});
+  const [sessionLearning, setSessionLearning] = useState<LearningCard[]>([]);
   const [sttState, setSttState] = useState<STTState>("Idle");
   const [sttTranscript, setSttTranscript] = useState("");
-  const [sttResult, setSttResult] = useState<{ text: string; outcome: string } | null>(null);
+  const [sttResult, setSttResult] = useState<{
+    text: string;
+    outcome: MatchOutcome;
+    accepted: boolean;
+    matched: string;
+    accentMistakes: AccentMistake[];
+  } | null>(null);
+  const [accentStrictness, setAccentStrictness] = useState<AccentStrictness>("warn");
   const [isHard, setIsHard] = useState(false);
   const [sessionStats, setSessionStats] = useState({ correct: 0, wrong: 0 });
+  const [sessionStart, setSessionStart] = useState(0);
+  const [undoTrigger, setUndoTrigger] = useState(0);
+  const [cardShownAt, setCardShownAt] = useState(0);
+  const [recallTimeMs, setRecallTimeMs] = useState<number | null>(null);
   const [queue, setQueue] = useState<DailyQueue | null>(null);
   const [progress, setProgress] = useState<ProgressSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [gradePreview, setGradePreview] = useState<Record<ReviewGrade, number> | null>(null);
+  const [currentNote, setCurrentNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  // Set at once, so a second key press in the same render can't grade the card again
+  const submittingRef = useRef(false);
 
   useEffect(() => {
     loadData();
+  }, [words]);
+
+  useEffect(() => {
+    getSettings().then(settings => setAccentStrictness(settings.accentStrictness));
   }, []);
 
+  // Preview the next interval for each grade, and load any personal note
+  useEffect(() => {
+    if (!sessionActive || !sessionWords[currentIndex]) return;
+    const wordId = sessionWords[currentIndex].id;
+    setGradePreview(null);
+    setCurrentNote("");
+    getGradePreview(wordId, sessionSkills[wordId] || 'recognition').then(setGradePreview);
+    getWordStats().then(stats => setCurrentNote(stats[wordId]?.note || ""));
+  }, [sessionActive, sessionWords, sessionSkills, currentIndex]);
+
+  // Listening cards start by playing the word
+  useEffect(() => {
+    if (!sessionActive || !sessionWords[currentIndex]) return;
+    if (sessionSkills[sessionWords[currentIndex].id] === 'listening') {
+      handlePlayAudio();
+    }
+  }, [sessionActive, sessionWords, sessionSkills, currentIndex]);
+
+  // Time recall: from showing the card until it is first turned over
+  useEffect(() => {
+    if (!sessionActive) return;
+    setCardShownAt(Date.now());
+    setRecallTimeMs(null);
+  }, [sessionActive, currentIndex]);
+
+  useEffect(() => {
+    if (flipped) setRecallTimeMs(prev => prev ?? Date.now() - cardShownAt);
+  }, [flipped, cardShownAt]);
+
+  // Space flips the card
+  useEffect(() => {
+    if (!sessionActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "Space") {
+        e.preventDefault();
+        setFlipped(prev => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [sessionActive]);
+
   const loadData = async () => {
     try {
-      const settings = await getSettings();
       const [queueData, progressData] = await Promise.all([
-        buildDailyQueue(words, settings.dailyGoal),
+        buildDailyQueue(words, { forStudy: true }),
         getProgressSummary(words)
       ]);
       setQueue(queueData);
@@ -83,10 +159,10 @@ const Learn = () => {
 
   const startSession = async (mode: 'daily' | 'category' = 'daily', categoryName?: string) => {
     let sessionQueue: Word[];
+    let learning: LearningCard[] = [];
 
     if (mode === 'daily') {
-      const settings = await getSettings();
-      sessionQueue = await getDailySessionQueue(words, settings.dailyGoal);
+      ({ words: sessionQueue, learning } = await getDailySessionQueue(words));
     } else if (categoryName) {
       const filtered = words.filter(w => w.category === categoryName);
       sessionQueue = [...filtered].sort(() => Math.random() - 0.5).slice(0, 10);
@@ -94,13 +170,16 @@ const Learn = () => {
       sessionQueue = [...words].sort(() => Math.random() - 0.5).slice(0, 10);
     }
 
+    setSessionSkills(await getSkillsToDrill([...sessionQueue, ...learning.map(card => card.word)]));
     setSessionWords(sessionQueue);
+    setSessionLearning(learning);
     setCurrentIndex(0);
     setFlipped(false);
     setSessionActive(true);
     setSttTranscript("");
     setSttResult(null);
     setSessionStats({ correct: 0, wrong: 0 });
+    setSessionStart(Date.now());
   };
 
   const handlePlayAudio = async () => {
@@ -120,6 +199,8 @@ const Learn = () => {
     }
 
     const word = sessionWords[currentIndex];
+    const drillingSpeaking = sessionSkills[word.id] === 'speaking';
+    const snapshot: LearnSnapshot = { words: sessionWords, index: currentIndex, learning: sessionLearning, stats: sessionStats };
     const settings = getTTSSettings();
     setSttTranscript("");
     setSttResult(null);
@@ -129,15 +210,27 @@ const Learn = () => {
       async (result) => {
         setSttTranscript(result.transcript);
         if (result.isFinal) {
-          const evaluation = evaluateMatch(result.transcript, word.spanish);
+          const evaluation = evaluateAnswers(result.transcript, getAcceptedAnswers(word, "spanish"), accentStrictness);
+          const isCorrect = isAcceptedOutcome(evaluation.outcome, accentStrictness);
           setSttResult({
             text: result.transcript,
-            outcome: evaluation.outcome
+            outcome: evaluation.outcome,
+            accepted: isCorrect,
+            matched: evaluation.matched,
+            accentMistakes: evaluation.accentMistakes
           });
 
-          // Auto-record answer based on outcome
-          const isCorrect = evaluation.outcome === "Correct" || evaluation.outcome === "Close";
-          await updateStatsOnResult(word.id, isCorrect ? 'correct' : 'wrong');
+          // Speaking cards are graded with the buttons; elsewhere the attempt
+          // is recorded straight away as speaking practice
+          if (drillingSpeaking) return;
+          await updateStatsOnResult(word.id, isCorrect ? 'correct' : 'wrong', {
+            mode: 'learn',
+            answerType: 'spoken',
+            skill: 'speaking',
+            responseTimeMs: Date.now() - cardShownAt,
+            mistakes: classifyMistakes(result.transcript, evaluation.matched, word.english)
+          }, snapshot);
+          setUndoTrigger(t => t + 1);
           setSessionStats(prev => ({
             correct: prev.correct + (isCorrect ? 1 : 0),
             wrong: prev.wrong + (isCorrect ? 0 : 1)
@@ -152,30 +245,63 @@ const Learn = () => {
     );
   };
 
+  // Go back to the card whose answer was undone
+  const handleUndo = useCallback(async () => {
+    const undone = await undoLastAnswer<LearnSnapshot>();
+    if (!undone?.session) return;
+
+    stopListening();
+    setSessionWords(undone.session.words);
+    setCurrentIndex(undone.session.index);
+    setSessionLearning(undone.session.learning);
+    setSessionStats(undone.session.stats);
+    setFlipped(false);
+    setSttTranscript("");
+    setSttResult(null);
+    setSttState("Idle");
+    setIsHard(false);
+  }, []);
+
   const handleMarkHard = async () => {
     const word = sessionWords[currentIndex];
     const newHardState = await toggleHardFlag(word.id);
     setIsHard(newHardState);
   };
 
-  const handleNext = async (correct?: boolean) => {
+  const handleNext = (grade?: ReviewGrade) =>
+    runExclusive(submittingRef, () => recordAndAdvance(grade), setSubmitting);
+
+  const recordAndAdvance = async (grade?: ReviewGrade) => {
     const word = sessionWords[currentIndex];
+    const skill = sessionSkills[word.id] || 'recognition';
+
+    const snapshot: LearnSnapshot = { words: sessionWords, index: currentIndex, learning: sessionLearning, stats: sessionStats };
+    const responseTimeMs = recallTimeMs ?? Date.now() - cardShownAt;
+    let finalStats = sessionStats;
+    let learning = sessionLearning;
 
     // Record answer if provided
-    if (correct !== undefined) {
-      await updateStatsOnResult(word.id, correct ? 'correct' : 'wrong');
-      setSessionStats(prev => ({
-        correct: prev.correct + (correct ? 1 : 0),
-        wrong: prev.wrong + (correct ? 0 : 1)
-      }));
+    if (grade !== undefined) {
+      const correct = grade !== 'again';
+      const stats = await updateStatsOnResult(word.id, grade, { mode: 'learn', answerType: 'reveal', skill, responseTimeMs }, snapshot);
+      learning = requeueLearningCard(sessionLearning, word, stats);
+      finalStats = {
+        correct: sessionStats.correct + (correct ? 1 : 0),
+        wrong: sessionStats.wrong + (correct ? 0 : 1)
+      };
+      setSessionStats(finalStats);
     } else {
       // Just mark as seen (skipped)
-      await updateStatsOnResult(word.id, 'skipped');
+      await updateStatsOnResult(word.id, 'skipped', { mode: 'learn', answerType: 'reveal', skill }, snapshot);
     }
-
-    // Move to next card
-    if (currentIndex < sessionWords.length - 1) {
-      setCurrentIndex(currentIndex + 1);
+    setUndoTrigger(t => t + 1);
+
+    // Move to the next card; failed and new cards come back after their learning step
+    const next = advanceSession({ words: sessionWords, index: currentIndex, learning });
+    if (next) {
+      setSessionWords(next.words);
+      setCurrentIndex(next.index);
+      setSessionLearning(next.learning);
       setFlipped(false);
       setSttTranscript("");
       setSttResult(null);
@@ -184,6 +310,12 @@ const Learn = () => {
     } else {
       // Session complete
       setSessionActive(false);
+      await recordSession({
+        wordsStudied: new Set(sessionWords.map(w => w.id)).size,
+        correctAnswers: finalStats.correct,
+        wrongAnswers: finalStats.wrong,
+        timeSpentMinutes: Math.max(1, Math.round((Date.now() - sessionStart) / 60000))
+      });
       loadData(); // Refresh stats
     }
   };
@@ -249,12 +381,15 @@ const Learn = () => {
   // Active session view
   if (sessionActive) {
     const word = sessionWords[currentIndex];
+    const skill = sessionSkills[word.id] || 'recognition';
     const ttsSupported = isTTSSupported();
     const sttSupported = isSTTSupported();
     const sessionProgress = ((currentIndex + 1) / sessionWords.length) * 100;
 
     return (
       <div className="min-h-screen flex flex-col">
+        <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
+
         {/* Progress Header */}
         <div className="bg-card border-b p-4">
           <div className="max-w-4xl mx-auto">
@@ -291,32 +426,72 @@ const Learn = () => {
               )}
               onClick={() => setFlipped(!flipped)}
             >
-              {/* Front - Spanish */}
+              {/* Front - prompt for the skill being drilled */}
               <div className={cn(
                 "absolute inset-0 w-full h-full backface-hidden rounded-3xl border-2 bg-card shadow-2xl flex flex-col items-center justify-center p-8 text-center transition-all duration-300",
                 !flipped ? "z-10" : "z-0 opacity-0"
               )}>
-                <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">Spanish</span>
-                <h2 className="text-4xl sm:text-5xl lg:text-6xl font-bold text-foreground mb-4">{word.spanish}</h2>
-                {word.pronunciation && (
-                  <p className="text-lg text-primary/80 italic font-medium">🔊 [{word.pronunciation}]</p>
+                {skill === 'recognition' && (
+                  <>
+                    <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">Spanish</span>
+                    <h2 className="text-4xl sm:text-5xl lg:text-6xl font-bold text-foreground mb-4">{word.spanish}</h2>
+                    {word.pronunciation && (
+                      <p className="text-lg text-primary/80 italic font-medium">🔊 [{word.pronunciation}]</p>
+                    )}
+                  </>
+                )}
+                {(skill === 'production' || skill === 'speaking') && (
+                  <>
+                    <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">
+                      {skill === 'speaking' ? "Say it in Spanish" : "Recall the Spanish"}
+                    </span>
+                    <h2 className="text-4xl sm:text-5xl lg:text-6xl font-bold text-foreground mb-4">{word.english}</h2>
+                  </>
+                )}
+                {skill === 'listening' && (
+                  <>
+                    <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">What did you hear?</span>
+                    <button
+                      type="button"
+                      className="h-24 w-24 rounded-full flex items-center justify-center bg-blue-100 dark:bg-blue-900/50 border-2 border-blue-300 dark:border-blue-600 hover:bg-blue-200 dark:hover:bg-blue-800/50 transition-colors"
+                      onClick={(e) => { e.stopPropagation(); handlePlayAudio(); }}
+                      title="Play again"
+                    >
+                      <Volume2 className="h-10 w-10 text-blue-600 dark:text-blue-300" />
+                    </button>
+                  </>
                 )}
                 <p className="text-xs text-muted-foreground mt-6 bg-muted px-3 py-1 rounded-full">
-                  {word.category}
+                  {word.category} • {SKILL_LABELS[skill]}
                 </p>
                 <p className="text-sm text-muted-foreground mt-8 opacity-60">Tap to reveal</p>
               </div>
 
-              {/* Back - English */}
+              {/* Back - answer */}
               <div className={cn(
                 "absolute inset-0 w-full h-full backface-hidden rounded-3xl border-2 bg-gradient-to-br from-primary/5 to-accent/5 shadow-2xl flex flex-col items-center justify-center p-8 text-center [transform:rotateY(180deg)] transition-all duration-300",
                 flipped ? "z-10" : "z-0 opacity-0"
               )}>
-                <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">English</span>
-                <h2 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-foreground mb-4">{word.english}</h2>
+                {skill === 'recognition' ? (
+                  <>
+                    <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">English</span>
+                    <h2 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-foreground mb-4">{word.english}</h2>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-sm font-medium text-primary uppercase tracking-widest mb-6">Spanish</span>
+                    <h2 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-foreground mb-2">{word.spanish}</h2>
+                    <p className="text-lg text-muted-foreground">{word.english}</p>
+                  </>
+                )}
                 {word.example && (
                   <p className="text-lg text-muted-foreground italic mt-4">"{word.example}"</p>
                 )}
+                {currentNote && (
+                  <p className="text-sm mt-4 px-3 py-2 rounded-lg bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200">
+                    📝 {currentNote}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -330,12 +505,17 @@ const Learn = () => {
                   <p className={cn(
                     "text-sm font-bold mt-2",
                     sttResult.outcome === "Correct" ? "text-green-600" :
-                      sttResult.outcome === "Close" ? "text-amber-600" : "text-red-600"
+                      sttResult.accepted ? "text-amber-600" : "text-red-600"
                   )}>
                     {sttResult.outcome === "Correct" ? "✅ Perfect!" :
-                      sttResult.outcome === "Close" ? "🟡 Close enough!" : "❌ Try again"}
+                      sttResult.outcome === "Close" ? "🟡 Close enough!" :
+                        sttResult.outcome === "AccentError" ? (sttResult.accepted ? "🟡 Mind the accent!" : "❌ Missing accent") :
+                          "❌ Try again"}
                   </p>
                 )}
+                {sttResult?.outcome === "AccentError" && (
+                  <AccentFeedback target={sttResult.matched} mistakes={sttResult.accentMistakes} />
+                )}
               </div>
             )}
 
@@ -389,23 +569,7 @@ const Learn = () => {
               </div>
 
               {flipped ? (
-                <div className="flex gap-3">
-                  <Button
-                    variant="secondary"
-                    size="lg"
-                    className="flex-1 h-14 text-lg"
-                    onClick={() => handleNext(false)}
-                  >
-                    <RotateCcw className="mr-2" size={20} /> Repeat
-                  </Button>
-                  <Button
-                    size="lg"
-                    className="flex-1 h-14 text-lg"
-                    onClick={() => handleNext(true)}
-                  >
-                    <Check className="mr-2" size={20} /> Got it!
-                  </Button>
-                </div>
+                <GradeButtons onGrade={handleNext} intervals={gradePreview} disabled={submitting} />
               ) : (
                 <Button
                   size="lg"
@@ -413,6 +577,7 @@ const Learn = () => {
                   onClick={() => setFlipped(true)}
                 >
                   Show Answer <ArrowRight className="ml-2" size={20} />
+                  <span className="ml-2 text-xs opacity-70">(Space)</span>
                 </Button>
               )}
             </div>
@@ -449,6 +614,7 @@ const Learn = () => {
           </div>
           <h1 className="text-4xl font-black tracking-tight text-foreground">Learn</h1>
           <p className="text-muted-foreground mt-2">Master Spanish with smart spaced repetition</p>
+          <DeckSelector className="justify-center mt-4" />
         </header>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
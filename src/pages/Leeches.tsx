@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Card, CardContent } from "../components/ui/Card";
+import {
+  ArrowLeft, Bug, Check, PlayCircle, RotateCcw, StickyNote, Volume2
+} from "lucide-react";
+import {
+  getLeeches,
+  getSettings,
+  setSuspended,
+  setWordNote,
+  resetWordProgress,
+  LeechEntry
+} from "../services/LearningEngine";
+import { speak, getTTSSettings } from "../services/TTSService";
+import { useDeck } from "../context/DeckContext";
+import type { Word } from "../types";
+
+const Leeches = () => {
+  const navigate = useNavigate();
+  const { allWords } = useDeck();
+  const [leeches, setLeeches] = useState<LeechEntry[]>([]);
+  const [threshold, setThreshold] = useState(8);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savedNote, setSavedNote] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadLeeches();
+  }, []);
+
+  const loadLeeches = async () => {
+    try {
+      const [entries, settings] = await Promise.all([getLeeches(allWords), getSettings()]);
+      setLeeches(entries);
+      setThreshold(settings.leechThreshold);
+      setNotes(Object.fromEntries(entries.map(e => [e.word.id, e.stats.note])));
+    } catch (error) {
+      console.error("Error loading leeches:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnsuspend = async (entry: LeechEntry) => {
+    await setWordNote(entry.word.id, notes[entry.word.id] || "");
+    await setSuspended(entry.word.id, false);
+    await loadLeeches();
+  };
+
+  const handleReset = async (entry: LeechEntry) => {
+    const confirmed = window.confirm(
+      `Reset "${entry.word.spanish}"?\n\nIt will start over as a new word. Your note is kept.`
+    );
+    if (confirmed) {
+      await resetWordProgress(entry.word.id);
+      await loadLeeches();
+    }
+  };
+
+  const handleSaveNote = async (wordId: string) => {
+    await setWordNote(wordId, notes[wordId] || "");
+    setSavedNote(wordId);
+    setTimeout(() => setSavedNote(null), 1500);
+  };
+
+  const handlePlayAudio = async (word: Word) => {
+    try {
+      const settings = getTTSSettings();
+      await speak(word.spanish, settings.accent, settings.rate);
+    } catch (e) {
+      console.error("TTS error:", e);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-primary/5 via-background to-accent/5 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex items-center gap-3 mb-2">
+            <Bug className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl sm:text-4xl font-bold">Leeches</h1>
+          </div>
+          <p className="text-muted-foreground text-lg">
+            Words forgotten {threshold}+ times are suspended so they stop clogging your reviews.
+            Add a mnemonic, then put them back into rotation.
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        {leeches.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center p-12 text-center">
+              <div className="h-16 w-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-4">
+                <Check className="h-8 w-8 text-green-600" />
+              </div>
+              <h2 className="text-xl font-bold mb-1">No leeches</h2>
+              <p className="text-muted-foreground">Nothing keeps tripping you up right now.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          leeches.map((entry) => (
+            <Card key={entry.word.id}>
+              <CardContent className="p-5 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2
+                        className="text-2xl font-bold cursor-pointer hover:underline"
+                        onClick={() => navigate(`/words/${entry.word.id}`)}
+                      >
+                        {entry.word.spanish}
+                      </h2>
+                      <button
+                        type="button"
+                        className="p-1 rounded-full hover:bg-accent transition-colors"
+                        onClick={() => handlePlayAudio(entry.word)}
+                        title="Listen"
+                      >
+                        <Volume2 className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                    <p className="text-muted-foreground">{entry.word.english}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{entry.word.category}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-2xl font-black text-red-500">{entry.stats.lapses}</p>
+                    <p className="text-xs text-muted-foreground">lapses</p>
+                  </div>
+                </div>
+
+                {/* Note */}
+                <div>
+                  <label className="text-sm font-medium flex items-center gap-2 mb-2">
+                    <StickyNote className="h-4 w-4 text-muted-foreground" /> Note / Mnemonic
+                  </label>
+                  <textarea
+                    value={notes[entry.word.id] || ""}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [entry.word.id]: e.target.value }))}
+                    placeholder="e.g. a memory hook or example sentence"
+                    rows={2}
+                    className="w-full p-3 rounded-lg border bg-card text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="secondary" size="sm" onClick={() => handleSaveNote(entry.word.id)}>
+                    {savedNote === entry.word.id
+                      ? <><Check className="mr-2 h-4 w-4" /> Saved</>
+                      : <><StickyNote className="mr-2 h-4 w-4" /> Save Note</>}
+                  </Button>
+                  <Button size="sm" onClick={() => handleUnsuspend(entry)}>
+                    <PlayCircle className="mr-2 h-4 w-4" /> Unsuspend
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleReset(entry)}>
+                    <RotateCcw className="mr-2 h-4 w-4" /> Reset
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Leeches;
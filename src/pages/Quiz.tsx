@@ -1,12 +1,16 @@
 import { useState, useEffect, useCallback } from "react";
-import words from "../data/words.json";
-import { updateStatsOnResult } from "../services/LearningEngine";
+import { updateStatsOnResult, recordSession, undoLastAnswer, getSettings } from "../services/LearningEngine";
 import { speak, isTTSSupported, getTTSSettings } from "../services/TTSService";
 import { startListening, stopListening, isSTTSupported } from "../services/STTService";
-import { evaluateMatch } from "../utils/text";
+import { evaluateAnswers, getAcceptedAnswers, isAcceptedOutcome, classifyMistakes, type AccentStrictness } from "../utils/text";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent } from "../components/ui/Card";
 import { ProgressBar } from "../components/ui/ProgressBar";
+import UndoToast from "../components/UndoToast";
+import DeckSelector from "../components/DeckSelector";
+import AccentFeedback from "../components/AccentFeedback";
+import AnswerDiff from "../components/AnswerDiff";
+import { useDeck } from "../context/DeckContext";
 import {
   Volume2, Mic, MicOff, BrainCircuit, X, ArrowRight, Lightbulb,
   Flame, Zap, Trophy, Star, RotateCcw, Home, Sparkles, Timer, BarChart3, BookOpen, Target
@@ -15,15 +19,24 @@ import { cn } from "../lib/utils";
 import { useNavigate } from "react-router-dom";
 import type { Word } from "../types";
 import type { STTState } from "../services/STTService";
-import type { MatchOutcome } from "../utils/text";
 
 type QuizMode = "multiple" | "typed";
+
+// Quiz state to go back to when an answer is undone
+type QuizSnapshot = {
+  index: number;
+  score: number;
+  xp: number;
+  combo: number;
+  maxCombo: number;
+};
 type Direction = "es-en" | "en-es";
 
 type QuizQuestion = {
   word: Word;
   choices?: string[];
   correctAnswer: string;
+  acceptedAnswers: string[]; // for typed and spoken answers
   prompt: string;
   promptLang: string;
 };
@@ -89,6 +102,7 @@ const FloatingText = ({ text, show, color = "primary" }: { text: string; show: b
 
 const Quiz = () => {
   const navigate = useNavigate();
+  const { words, allWords } = useDeck();
   const [quizActive, setQuizActive] = useState(false);
   const [quizComplete, setQuizComplete] = useState(false);
   const [mode, setMode] = useState<QuizMode>("multiple");
@@ -99,7 +113,8 @@ const Quiz = () => {
   const [answered, setAnswered] = useState(false);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [typedAnswer, setTypedAnswer] = useState("");
-  const [typedResult, setTypedResult] = useState<{ outcome: MatchOutcome; similarity: number } | null>(null);
+  const [typedResult, setTypedResult] = useState<ReturnType<typeof evaluateAnswers> | null>(null);
+  const [accentStrictness, setAccentStrictness] = useState<AccentStrictness>("warn");
   const [sttState, setSttState] = useState<STTState>("Idle");
 
   // Gamification state
@@ -119,11 +134,16 @@ const Quiz = () => {
   const [showComboBreak, setShowComboBreak] = useState(false);
   const [showPerfect, setShowPerfect] = useState(false);
   const [questionStartTime, setQuestionStartTime] = useState(0);
+  const [undoTrigger, setUndoTrigger] = useState(0);
 
   useEffect(() => {
     return () => stopListening();
   }, []);
 
+  useEffect(() => {
+    getSettings().then(settings => setAccentStrictness(settings.accentStrictness));
+  }, []);
+
   // Question timer
   useEffect(() => {
     let interval: number;
@@ -142,28 +162,32 @@ const Quiz = () => {
   };
 
   const startQuiz = (selectedMode: QuizMode, selectedDirection: Direction) => {
+    if (words.length === 0) return;
     setMode(selectedMode);
     setDirection(selectedDirection);
 
+    // Small decks borrow wrong choices from the other words
+    const choicePool = words.length > 3 ? words : allWords;
     const shuffled = [...words].sort(() => Math.random() - 0.5).slice(0, 10);
     const quizQuestions: QuizQuestion[] = shuffled.map(word => {
       const isEsToEn = selectedDirection === "es-en";
       const prompt = isEsToEn ? word.spanish : word.english;
       const correctAnswer = isEsToEn ? word.english : word.spanish;
+      const acceptedAnswers = getAcceptedAnswers(word, isEsToEn ? "english" : "spanish");
       const promptLang = isEsToEn ? "es" : "en";
 
       if (selectedMode === "multiple") {
-        const wrongChoices = words
+        const wrongChoices = choicePool
           .filter(w => w.id !== word.id)
           .map(w => isEsToEn ? w.english : w.spanish)
           .sort(() => Math.random() - 0.5)
           .slice(0, 3);
 
         const choices = [correctAnswer, ...wrongChoices].sort(() => Math.random() - 0.5);
-        return { word, choices, correctAnswer, prompt, promptLang };
+        return { word, choices, correctAnswer, acceptedAnswers, prompt, promptLang };
       }
 
-      return { word, correctAnswer, prompt, promptLang };
+      return { word, correctAnswer, acceptedAnswers, prompt, promptLang };
     });
 
     setQuestions(quizQuestions);
@@ -236,8 +260,33 @@ const Quiz = () => {
     }
   };
 
+  const takeSnapshot = (): QuizSnapshot => ({ index: currentQ, score, xp, combo, maxCombo });
+
+  // Reopen the question whose answer was undone
+  const handleUndo = useCallback(async () => {
+    const undone = await undoLastAnswer<QuizSnapshot>();
+    if (!undone?.session) return;
+
+    const snapshot = undone.session;
+    stopListening();
+    setCurrentQ(snapshot.index);
+    setScore(snapshot.score);
+    setXp(snapshot.xp);
+    setCombo(snapshot.combo);
+    setMaxCombo(snapshot.maxCombo);
+    setAnswered(false);
+    setSelectedAnswer(null);
+    setTypedAnswer("");
+    setTypedResult(null);
+    setSttState("Idle");
+    setIsCorrect(null);
+    setQuestionTimer(0);
+    setQuestionStartTime(Date.now());
+  }, []);
+
   const handleMultipleChoice = async (choice: string) => {
     if (answered) return;
+    const snapshot = takeSnapshot();
 
     setSelectedAnswer(choice);
     setAnswered(true);
@@ -251,18 +300,26 @@ const Quiz = () => {
     }
 
     awardXp(correct);
-    await updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong');
+    await updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong', {
+      mode: 'quiz',
+      answerType: 'multiple_choice',
+      skill: question.promptLang === "es" ? 'recognition' : 'production',
+      responseTimeMs: Date.now() - questionStartTime
+    }, snapshot);
+    setUndoTrigger(t => t + 1);
   };
 
   const handleTypedSubmit = async () => {
     if (answered || !typedAnswer.trim()) return;
+    const snapshot = takeSnapshot();
 
     const question = questions[currentQ];
-    const evaluation = evaluateMatch(typedAnswer, question.correctAnswer);
+    const evaluation = evaluateAnswers(typedAnswer, question.acceptedAnswers, accentStrictness);
+    const mistakes = classifyMistakes(typedAnswer, evaluation.matched, question.prompt);
     setTypedResult(evaluation);
     setAnswered(true);
 
-    const correct = evaluation.outcome === "Correct" || evaluation.outcome === "Close";
+    const correct = isAcceptedOutcome(evaluation.outcome, accentStrictness);
     setIsCorrect(correct);
 
     if (correct) {
@@ -270,7 +327,14 @@ const Quiz = () => {
     }
 
     awardXp(correct);
-    await updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong');
+    await updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong', {
+      mode: 'quiz',
+      answerType: 'typed',
+      skill: question.promptLang === "es" ? 'recognition' : 'production',
+      responseTimeMs: Date.now() - questionStartTime,
+      mistakes
+    }, snapshot);
+    setUndoTrigger(t => t + 1);
   };
 
   const handlePlayAudio = async () => {
@@ -291,6 +355,7 @@ const Quiz = () => {
     }
 
     const question = questions[currentQ];
+    const snapshot = takeSnapshot();
     const settings = getTTSSettings();
     const targetLang = direction === "es-en" ? "en-US" : settings.accent;
 
@@ -299,17 +364,25 @@ const Quiz = () => {
       (result) => {
         setTypedAnswer(result.transcript);
         if (result.isFinal) {
-          const evaluation = evaluateMatch(result.transcript, question.correctAnswer);
+          const evaluation = evaluateAnswers(result.transcript, question.acceptedAnswers, accentStrictness);
+          const mistakes = classifyMistakes(result.transcript, evaluation.matched, question.prompt);
           setTypedResult(evaluation);
           setAnswered(true);
 
-          const correct = evaluation.outcome === "Correct" || evaluation.outcome === "Close";
+          const correct = isAcceptedOutcome(evaluation.outcome, accentStrictness);
           setIsCorrect(correct);
           if (correct) {
             setScore(score + 1);
           }
           awardXp(correct);
-          updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong');
+          updateStatsOnResult(question.word.id, correct ? 'correct' : 'wrong', {
+            mode: 'quiz',
+            answerType: 'spoken',
+            skill: question.promptLang === "es" ? 'recognition' : 'speaking',
+            responseTimeMs: Date.now() - questionStartTime,
+            mistakes
+          }, snapshot).catch(error => console.error("Error saving answer:", error));
+          setUndoTrigger(t => t + 1);
         }
       },
       (state) => setSttState(state),
@@ -335,6 +408,12 @@ const Quiz = () => {
       setEndTime(Date.now());
       setQuizActive(false);
       setQuizComplete(true);
+      recordSession({
+        wordsStudied: questions.length,
+        correctAnswers: score,
+        wrongAnswers: questions.length - score,
+        timeSpentMinutes: Math.max(1, Math.round((Date.now() - startTime) / 60000))
+      });
     }
   };
 
@@ -583,6 +662,8 @@ const Quiz = () => {
 
     return (
       <div className="min-h-[calc(100vh-80px)] flex flex-col lg:flex-row gap-6 p-4 lg:p-8">
+        <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
+
         {/* Left sidebar - Stats (desktop only) */}
         <div className="hidden lg:flex flex-col gap-4 w-64 shrink-0">
           <Card className="p-4">
@@ -848,20 +929,29 @@ const Quiz = () => {
                   <div className={cn(
                     "rounded-xl p-4 text-center transition-all animate-in slide-in-from-bottom-4",
                     typedResult.outcome === "Correct" ? "bg-gradient-to-r from-green-100 to-emerald-100 dark:from-green-900/40 dark:to-emerald-900/40 border-2 border-green-500" :
-                      typedResult.outcome === "Close" ? "bg-gradient-to-r from-amber-100 to-yellow-100 dark:from-amber-900/40 dark:to-yellow-900/40 border-2 border-amber-500" :
+                      typedResult.outcome === "Close" || (typedResult.outcome === "AccentError" && isCorrect) ? "bg-gradient-to-r from-amber-100 to-yellow-100 dark:from-amber-900/40 dark:to-yellow-900/40 border-2 border-amber-500" :
                         "bg-gradient-to-r from-red-100 to-rose-100 dark:from-red-900/40 dark:to-rose-900/40 border-2 border-red-500"
                   )}>
                     <p className={cn(
                       "text-xl font-black mb-2",
                       typedResult.outcome === "Correct" ? "text-green-600" :
-                        typedResult.outcome === "Close" ? "text-amber-600" : "text-red-600"
+                        typedResult.outcome === "Close" || (typedResult.outcome === "AccentError" && isCorrect) ? "text-amber-600" : "text-red-600"
                     )}>
                       {typedResult.outcome === "Correct" ? "✅ CORRECT!" :
-                        typedResult.outcome === "Close" ? "🟡 Close Enough!" : "❌ Incorrect"}
+                        typedResult.outcome === "Close" ? "🟡 Close Enough!" :
+                          typedResult.outcome === "AccentError" ? (isCorrect ? "🟡 Correct, Mind the Accent!" : "❌ Missing Accent") :
+                            "❌ Incorrect"}
                     </p>
+                    {typedResult.outcome === "AccentError" && (
+                      <AccentFeedback target={typedResult.matched} mistakes={typedResult.accentMistakes} />
+                    )}
                     <p className="text-muted-foreground">
-                      Correct answer: <strong className="text-foreground">{question.correctAnswer}</strong>
+                      {question.acceptedAnswers.length > 1 ? "Accepted answers" : "Correct answer"}:{" "}
+                      <strong className="text-foreground">{question.acceptedAnswers.join(" · ")}</strong>
                     </p>
+                    {(typedResult.outcome === "Close" || typedResult.outcome === "Incorrect") && (
+                      <AnswerDiff typed={typedAnswer} target={typedResult.matched} />
+                    )}
                   </div>
                 )}
               </div>
@@ -913,6 +1003,7 @@ const Quiz = () => {
           </div>
           <h1 className="text-4xl font-black tracking-tight text-foreground">Quiz Challenge</h1>
           <p className="text-muted-foreground mt-2">Test your memory and earn XP! 🎮</p>
+          <DeckSelector className="justify-center mt-4" />
         </header>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -1,15 +1,29 @@
-import { useState, useEffect } from "react";
-import wordsData from "../data/words.json";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { Word } from "../types";
 import {
   updateStatsOnResult,
   buildDailyQueue,
-  getSettings,
   getProgressSummary,
-  getWordStats
+  getWordStats,
+  getGradePreview,
+  recordSession,
+  undoLastAnswer,
+  requeueLearningCard,
+  advanceSession,
+  LearningCard,
+  getSettings
 } from "../services/LearningEngine";
+import type { ReviewGrade } from "../services/Scheduler";
+import { SKILL_LABELS, type Skill } from "../services/SkillCards";
+import GradeButtons from "../components/GradeButtons";
+import UndoToast from "../components/UndoToast";
+import DeckSelector from "../components/DeckSelector";
+import AccentFeedback from "../components/AccentFeedback";
+import { useDeck } from "../context/DeckContext";
 import { speak, isTTSSupported, getTTSSettings } from "../services/TTSService";
 import { startListening, stopListening, isSTTSupported } from "../services/STTService";
-import { evaluateMatch } from "../utils/text";
+import { evaluateAnswers, getAcceptedAnswers, isAcceptedOutcome, classifyMistakes, type AccentStrictness, type MatchOutcome, type AccentMistake } from "../utils/text";
+import { runExclusive } from "../utils/async";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import { ProgressBar } from "../components/ui/ProgressBar";
@@ -22,20 +36,25 @@ import { cn } from "../lib/utils";
 import { useNavigate } from "react-router-dom";
 import type { STTState } from "../services/STTService";
 
-interface Word {
-  id: string;
-  spanish: string;
-  english: string;
-  category: string;
-  pronunciation?: string;
-  example?: string;
-}
-
-const words = wordsData as Word[];
+// Session state to go back to when an answer is undone
+type ReviewSnapshot = {
+  words: Word[];
+  index: number;
+  learning: LearningCard[];
+  streak: number;
+  maxStreak: number;
+  xpEarned: number;
+  stats: { correct: number; wrong: number };
+  todayReviewed: number;
+};
 
 const Review = () => {
   const navigate = useNavigate();
+  const { words } = useDeck();
   const [reviewQueue, setReviewQueue] = useState<string[]>([]);
+  const [reviewSkills, setReviewSkills] = useState<Record<string, Skill>>({});
+  const [queuedLearning, setQueuedLearning] = useState<LearningCard[]>([]);
+  const [sessionLearning, setSessionLearning] = useState<LearningCard[]>([]);
   const [sessionActive, setSessionActive] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [flipped, setFlipped] = useState(false);
@@ -43,9 +62,18 @@ const Review = () => {
   const [speakMode, setSpeakMode] = useState(false);
   const [sttState, setSttState] = useState<STTState>("Idle");
   const [sttTranscript, setSttTranscript] = useState("");
-  const [sttResult, setSttResult] = useState<{ text: string; outcome: string } | null>(null);
+  const [sttResult, setSttResult] = useState<{
+    text: string;
+    outcome: MatchOutcome;
+    accepted: boolean;
+    matched: string;
+    accentMistakes: AccentMistake[];
+  } | null>(null);
+  const [accentStrictness, setAccentStrictness] = useState<AccentStrictness>("warn");
   const [loading, setLoading] = useState(true);
   const [progress, setProgress] = useState<{ wordsLearned: number; wordsMastered: number; accuracy: number } | null>(null);
+  const [gradePreview, setGradePreview] = useState<Record<ReviewGrade, number> | null>(null);
+  const [currentNote, setCurrentNote] = useState("");
 
   // Gamification
   const [streak, setStreak] = useState(0);
@@ -54,19 +82,65 @@ const Review = () => {
   const [showXpGain, setShowXpGain] = useState(false);
   const [lastXpGain, setLastXpGain] = useState(0);
   const [sessionStats, setSessionStats] = useState({ correct: 0, wrong: 0 });
+  const [sessionStart, setSessionStart] = useState(0);
   const [todayReviewed, setTodayReviewed] = useState(0);
+  const [undoTrigger, setUndoTrigger] = useState(0);
+  const [cardShownAt, setCardShownAt] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  // Set at once, so a second key press in the same render can't grade the card again
+  const submittingRef = useRef(false);
+  const [recallTimeMs, setRecallTimeMs] = useState<number | null>(null);
 
   useEffect(() => {
     loadReviewQueue();
     return () => stopListening();
+  }, [words]);
+
+  useEffect(() => {
+    getSettings().then(settings => setAccentStrictness(settings.accentStrictness));
   }, []);
 
+  // Preview the next interval for each grade, and load any personal note
+  useEffect(() => {
+    if (!sessionActive || !sessionWords[currentIndex]) return;
+    const wordId = sessionWords[currentIndex].id;
+    setGradePreview(null);
+    setCurrentNote("");
+    getGradePreview(wordId, reviewSkills[wordId] || 'recognition').then(setGradePreview);
+    getWordStats().then(stats => setCurrentNote(stats[wordId]?.note || ""));
+  }, [sessionActive, sessionWords, reviewSkills, currentIndex]);
+
+  // Time recall: from showing the card until it is first turned over
+  useEffect(() => {
+    if (!sessionActive) return;
+    setCardShownAt(Date.now());
+    setRecallTimeMs(null);
+  }, [sessionActive, currentIndex]);
+
+  useEffect(() => {
+    if (flipped) setRecallTimeMs(prev => prev ?? Date.now() - cardShownAt);
+  }, [flipped, cardShownAt]);
+
+  // Space flips the card
+  useEffect(() => {
+    if (!sessionActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "Space") {
+        e.preventDefault();
+        setFlipped(prev => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [sessionActive]);
+
   const loadReviewQueue = async () => {
     setLoading(true);
     try {
-      const settings = await getSettings();
-      const queue = await buildDailyQueue(words, settings.dailyGoal);
+      const queue = await buildDailyQueue(words, { forStudy: true });
       setReviewQueue(queue.dueWords.map(w => w.id));
+      setReviewSkills(queue.skills);
+      setQueuedLearning(queue.learning);
 
       const progressData = await getProgressSummary(words);
       setProgress({
@@ -86,6 +160,7 @@ const Review = () => {
     if (dueWords.length === 0) return;
 
     setSessionWords([...dueWords].sort(() => Math.random() - 0.5));
+    setSessionLearning(queuedLearning);
     setCurrentIndex(0);
     setFlipped(false);
     setSessionActive(true);
@@ -95,6 +170,7 @@ const Review = () => {
     setMaxStreak(0);
     setXpEarned(0);
     setSessionStats({ correct: 0, wrong: 0 });
+    setSessionStart(Date.now());
   };
 
   const handlePlayAudio = async () => {
@@ -114,6 +190,8 @@ const Review = () => {
     }
 
     const word = sessionWords[currentIndex];
+    const drillingSpeaking = reviewSkills[word.id] === 'speaking';
+    const snapshot = takeSnapshot();
     const settings = getTTSSettings();
     setSttTranscript("");
     setSttResult(null);
@@ -123,11 +201,28 @@ const Review = () => {
       (result) => {
         setSttTranscript(result.transcript);
         if (result.isFinal) {
-          const evaluation = evaluateMatch(result.transcript, word.spanish);
+          const evaluation = evaluateAnswers(result.transcript, getAcceptedAnswers(word, "spanish"), accentStrictness);
+          const isCorrect = isAcceptedOutcome(evaluation.outcome, accentStrictness);
           setSttResult({
             text: result.transcript,
-            outcome: evaluation.outcome
+            outcome: evaluation.outcome,
+            accepted: isCorrect,
+            matched: evaluation.matched,
+            accentMistakes: evaluation.accentMistakes
           });
+
+          // Speaking cards are graded with the buttons; elsewhere the attempt
+          // is recorded straight away as speaking practice
+          if (!drillingSpeaking) {
+            updateStatsOnResult(word.id, isCorrect ? 'correct' : 'wrong', {
+              mode: 'review',
+              answerType: 'spoken',
+              skill: 'speaking',
+              responseTimeMs: Date.now() - cardShownAt,
+              mistakes: classifyMistakes(result.transcript, evaluation.matched, word.english)
+            }, snapshot).catch(error => console.error("Error saving answer:", error));
+            setUndoTrigger(t => t + 1);
+          }
         }
       },
       (state) => setSttState(state),
@@ -157,26 +252,74 @@ const Review = () => {
     }
   };
 
-  const handleRating = async (rating: "again" | "hard" | "good" | "easy") => {
-    const word = sessionWords[currentIndex];
+  const takeSnapshot = (): ReviewSnapshot => ({
+    words: sessionWords,
+    index: currentIndex,
+    learning: sessionLearning,
+    streak,
+    maxStreak,
+    xpEarned,
+    stats: sessionStats,
+    todayReviewed
+  });
+
+  // Go back to the card whose answer was undone
+  const handleUndo = useCallback(async () => {
+    const undone = await undoLastAnswer<ReviewSnapshot>();
+    if (!undone?.session) return;
+
+    const snapshot = undone.session;
+    stopListening();
+    setSessionWords(snapshot.words);
+    setCurrentIndex(snapshot.index);
+    setSessionLearning(snapshot.learning);
+    setStreak(snapshot.streak);
+    setMaxStreak(snapshot.maxStreak);
+    setXpEarned(snapshot.xpEarned);
+    setSessionStats(snapshot.stats);
+    setTodayReviewed(snapshot.todayReviewed);
+    setFlipped(false);
+    setSttTranscript("");
+    setSttResult(null);
+    setSttState("Idle");
+  }, []);
 
-    let result: 'correct' | 'wrong' = 'correct';
-    if (rating === 'again') {
-      result = 'wrong';
-    }
+  const handleRating = (rating: ReviewGrade) =>
+    runExclusive(submittingRef, () => recordAndAdvance(rating), setSubmitting);
 
-    awardXp(result === 'correct');
-    setTodayReviewed(prev => prev + 1);
-    await updateStatsOnResult(word.id, result);
+  const recordAndAdvance = async (rating: ReviewGrade) => {
+    const word = sessionWords[currentIndex];
+    const snapshot = takeSnapshot();
 
-    if (currentIndex < sessionWords.length - 1) {
-      setCurrentIndex(currentIndex + 1);
+    awardXp(rating !== 'again');
+    setTodayReviewed(prev => prev + 1);
+    const stats = await updateStatsOnResult(word.id, rating, {
+      mode: 'review',
+      answerType: 'reveal',
+      skill: reviewSkills[word.id] || 'recognition',
+      responseTimeMs: recallTimeMs ?? Date.now() - cardShownAt
+    }, snapshot);
+    setUndoTrigger(t => t + 1);
+
+    // Failed cards come back after their relearning step
+    const learning = requeueLearningCard(sessionLearning, word, stats);
+    const next = advanceSession({ words: sessionWords, index: currentIndex, learning });
+    if (next) {
+      setSessionWords(next.words);
+      setCurrentIndex(next.index);
+      setSessionLearning(next.learning);
       setFlipped(false);
       setSttTranscript("");
       setSttResult(null);
       setSttState("Idle");
     } else {
       setSessionActive(false);
+      await recordSession({
+        wordsStudied: new Set(sessionWords.map(w => w.id)).size,
+        correctAnswers: sessionStats.correct + (rating !== 'again' ? 1 : 0),
+        wrongAnswers: sessionStats.wrong + (rating === 'again' ? 1 : 0),
+        timeSpentMinutes: Math.max(1, Math.round((Date.now() - sessionStart) / 60000))
+      });
       await loadReviewQueue();
     }
   };
@@ -262,12 +405,15 @@ const Review = () => {
   // Active session - wider layout on desktop
   if (sessionActive) {
     const word = sessionWords[currentIndex];
+    const skill = reviewSkills[word.id] || 'recognition';
     const ttsSupported = isTTSSupported();
     const sttSupported = isSTTSupported();
     const progressPercent = ((currentIndex + 1) / sessionWords.length) * 100;
 
     return (
       <div className="min-h-[calc(100vh-80px)] flex flex-col lg:flex-row gap-6 p-4 lg:p-8">
+        <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
+
         {/* Left sidebar - Stats (desktop only) */}
         <div className="hidden lg:flex flex-col gap-4 w-64 shrink-0">
           <Card className="p-4">
@@ -384,12 +530,37 @@ const Review = () => {
                   className="absolute inset-0 w-full h-full rounded-3xl border-2 shadow-xl flex flex-col items-center justify-center p-8 text-center bg-gradient-to-br from-card via-card to-primary/5"
                   style={{ backfaceVisibility: 'hidden' }}
                 >
-                  <span className="text-sm font-bold text-primary uppercase tracking-widest mb-4">Spanish</span>
-                  <h2 className="text-4xl lg:text-5xl font-black text-foreground mb-2">{word.spanish}</h2>
-                  {word.pronunciation && (
-                    <p className="text-lg text-primary/80 italic mb-4">🔊 [{word.pronunciation}]</p>
+                  {skill === 'recognition' && (
+                    <>
+                      <span className="text-sm font-bold text-primary uppercase tracking-widest mb-4">Spanish</span>
+                      <h2 className="text-4xl lg:text-5xl font-black text-foreground mb-2">{word.spanish}</h2>
+                      {word.pronunciation && (
+                        <p className="text-lg text-primary/80 italic mb-4">🔊 [{word.pronunciation}]</p>
+                      )}
+                    </>
+                  )}
+                  {(skill === 'production' || skill === 'speaking') && (
+                    <>
+                      <span className="text-sm font-bold text-primary uppercase tracking-widest mb-4">
+                        {skill === 'speaking' ? "Say it in Spanish" : "Recall the Spanish"}
+                      </span>
+                      <h2 className="text-4xl lg:text-5xl font-black text-foreground mb-4">{word.english}</h2>
+                    </>
+                  )}
+                  {skill === 'listening' && (
+                    <>
+                      <span className="text-sm font-bold text-primary uppercase tracking-widest mb-4">What did you hear?</span>
+                      <button
+                        type="button"
+                        className="h-20 w-20 mb-4 rounded-full flex items-center justify-center bg-primary/10 hover:bg-primary/20 transition-colors"
+                        onClick={(e) => { e.stopPropagation(); handlePlayAudio(); }}
+                        title="Play again"
+                      >
+                        <Volume2 className="h-9 w-9 text-primary" />
+                      </button>
+                    </>
                   )}
-                  <p className="text-xs bg-secondary px-3 py-1 rounded-full">{word.category}</p>
+                  <p className="text-xs bg-secondary px-3 py-1 rounded-full">{word.category} • {SKILL_LABELS[skill]}</p>
                   <p className="text-sm text-muted-foreground mt-6 opacity-60">👆 Tap to flip</p>
                 </div>
 
@@ -398,11 +569,26 @@ const Review = () => {
                   className="absolute inset-0 w-full h-full rounded-3xl border-2 shadow-xl flex flex-col items-center justify-center p-8 text-center bg-gradient-to-br from-green-50 via-card to-emerald-50 dark:from-green-900/20 dark:via-card dark:to-emerald-900/20 [transform:rotateY(180deg)]"
                   style={{ backfaceVisibility: 'hidden' }}
                 >
-                  <span className="text-sm font-bold text-green-600 uppercase tracking-widest mb-4">English</span>
-                  <h2 className="text-3xl lg:text-4xl font-black text-foreground mb-4">{word.english}</h2>
+                  {skill === 'recognition' ? (
+                    <>
+                      <span className="text-sm font-bold text-green-600 uppercase tracking-widest mb-4">English</span>
+                      <h2 className="text-3xl lg:text-4xl font-black text-foreground mb-4">{word.english}</h2>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-sm font-bold text-green-600 uppercase tracking-widest mb-4">Spanish</span>
+                      <h2 className="text-3xl lg:text-4xl font-black text-foreground mb-2">{word.spanish}</h2>
+                      <p className="text-lg text-muted-foreground mb-4">{word.english}</p>
+                    </>
+                  )}
                   {word.example && (
                     <p className="text-lg text-muted-foreground italic">"{word.example}"</p>
                   )}
+                  {currentNote && (
+                    <p className="text-sm mt-4 px-3 py-2 rounded-lg bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200">
+                      📝 {currentNote}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -419,12 +605,17 @@ const Review = () => {
                   <p className={cn(
                     "text-sm font-bold mt-2",
                     sttResult.outcome === "Correct" ? "text-green-600" :
-                      sttResult.outcome === "Close" ? "text-amber-600" : "text-red-600"
+                      sttResult.accepted ? "text-amber-600" : "text-red-600"
                   )}>
                     {sttResult.outcome === "Correct" ? "✅ Perfect!" :
-                      sttResult.outcome === "Close" ? "🟡 Almost!" : "❌ Try again!"}
+                      sttResult.outcome === "Close" ? "🟡 Almost!" :
+                        sttResult.outcome === "AccentError" ? (sttResult.accepted ? "🟡 Mind the accent!" : "❌ Missing accent") :
+                          "❌ Try again!"}
                   </p>
                 )}
+                {sttResult?.outcome === "AccentError" && (
+                  <AccentFeedback target={sttResult.matched} mistakes={sttResult.accentMistakes} />
+                )}
               </div>
             )}
 
@@ -446,40 +637,11 @@ const Review = () => {
             </div>
 
             {flipped ? (
-              <div className="grid grid-cols-4 gap-2 lg:gap-3">
-                <button
-                  className="flex flex-col items-center gap-1 p-3 lg:p-4 rounded-xl bg-gradient-to-br from-red-500 to-rose-600 text-white font-bold shadow-lg active:scale-95 transition-transform"
-                  onClick={() => handleRating("again")}
-                >
-                  <span className="text-2xl lg:text-3xl">😕</span>
-                  <span className="text-[10px] lg:text-xs uppercase">Again</span>
-                </button>
-                <button
-                  className="flex flex-col items-center gap-1 p-3 lg:p-4 rounded-xl bg-gradient-to-br from-amber-400 to-orange-500 text-white font-bold shadow-lg active:scale-95 transition-transform"
-                  onClick={() => handleRating("hard")}
-                >
-                  <span className="text-2xl lg:text-3xl">😐</span>
-                  <span className="text-[10px] lg:text-xs uppercase">Hard</span>
-                </button>
-                <button
-                  className="flex flex-col items-center gap-1 p-3 lg:p-4 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600 text-white font-bold shadow-lg active:scale-95 transition-transform"
-                  onClick={() => handleRating("good")}
-                >
-                  <span className="text-2xl lg:text-3xl">😊</span>
-                  <span className="text-[10px] lg:text-xs uppercase">Good</span>
-                </button>
-                <button
-                  className="flex flex-col items-center gap-1 p-3 lg:p-4 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 text-white font-bold shadow-lg active:scale-95 transition-transform"
-                  onClick={() => handleRating("easy")}
-                >
-                  <span className="text-2xl lg:text-3xl">😄</span>
-                  <span className="text-[10px] lg:text-xs uppercase">Easy</span>
-                </button>
-              </div>
+              <GradeButtons onGrade={handleRating} intervals={gradePreview} disabled={submitting} />
             ) : (
               <div className="text-center p-4 bg-secondary/30 rounded-xl border-2 border-dashed">
                 <p className="text-sm text-muted-foreground font-medium">
-                  👆 Flip the card to see the answer and rate yourself
+                  👆 Flip the card (Space) to see the answer and rate yourself (1-4)
                 </p>
               </div>
             )}
@@ -545,6 +707,7 @@ const Review = () => {
           </div>
           <h1 className="text-4xl font-black tracking-tight text-foreground">Spaced Review</h1>
           <p className="text-muted-foreground mt-2">Reinforce what you've learned with smart repetition</p>
+          <DeckSelector className="justify-center mt-4" />
         </header>
 
         {loading ? (
@@ -719,19 +882,19 @@ const Review = () => {
                   <div className="space-y-2 text-sm">
                     <div className="flex items-center gap-2">
                       <span className="text-xl">😕</span>
-                      <span><strong>Again</strong> - Didn't remember</span>
+                      <span><strong>Again</strong> (1) - Didn't remember</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-xl">😐</span>
-                      <span><strong>Hard</strong> - Struggled a bit</span>
+                      <span><strong>Hard</strong> (2) - Struggled a bit</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-xl">😊</span>
-                      <span><strong>Good</strong> - Remembered well</span>
+                      <span><strong>Good</strong> (3) - Remembered well</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-xl">😄</span>
-                      <span><strong>Easy</strong> - Knew it instantly</span>
+                      <span><strong>Easy</strong> (4) - Knew it instantly</span>
                     </div>
                   </div>
                 </CardContent>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import wordsData from "../data/words.json";
+import { useNavigate } from "react-router-dom";
 import {
   getSpanishVoices,
   getTTSSettings,
@@ -8,34 +8,75 @@ import {
 } from "../services/TTSService";
 import { isSTTSupported } from "../services/STTService";
 import { useTheme } from "../context/ThemeContext";
+import { useDeck } from "../context/DeckContext";
 import {
   getSettings,
   saveSettings as saveLearningSettings,
   getProgressSummary,
   resetAllProgress,
-  getWordStats
+  getWordStats,
+  getVacation,
+  startVacation,
+  endVacation,
+  getSchedulerParams,
+  optimizeScheduler
 } from "../services/LearningEngine";
+import { SCHEDULERS, type SchedulerId } from "../services/Scheduler";
+import { getIntervalModifier, MIN_REVIEWS, type SchedulerParams } from "../services/Optimizer";
+import { createStudyPlan, clearStudyPlan, refreshStudyPlan, exceedsReviewLimit, getPeakReviews, type PlanGoal, type StudyPlan } from "../services/Planner";
+import { exportAnkiNotes } from "../services/Anki";
+import type { AccentStrictness } from "../utils/text";
+import { getStudyDay, addDaysToDay } from "../utils/date";
 import { Button } from "../components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/Card";
 import {
   Moon, Sun, Monitor, Volume2, Mic, Database, Trash2,
   Download, Info, Check, Target, Zap, BookOpen, Brain,
-  Settings as SettingsIcon, Sparkles
+  Settings as SettingsIcon, Sparkles, Bug, ChevronRight, Snowflake, Palmtree, Flag, Layers, Upload, AlertTriangle
 } from "lucide-react";
 import { cn } from "../lib/utils";
 
-interface Word {
-  id: string;
-  spanish: string;
-  english: string;
-  category: string;
-  pronunciation?: string;
-}
+// Categories grouped by name, so "Verbs (Core)" and "Verbs (Action)" are both "Verbs"
+const getCategoryGroup = (category: string) => category.split(" (")[0];
 
-const words = wordsData as Word[];
+// Default plan length: six weeks
+const DEFAULT_PLAN_DAYS = 42;
+
+// "1 10" <-> [1, 10]; steps are whole minutes within a day
+const formatSteps = (steps: number[]) => steps.join(" ");
+const parseSteps = (text: string) =>
+  text.split(/[\s,]+/).map(Number).filter(n => Number.isInteger(n) && n > 0 && n < 24 * 60);
+
+const ACCENT_STRICTNESS_OPTIONS: { value: AccentStrictness; label: string; description: string }[] = [
+  { value: "lenient", label: "Ignore", description: "Answers count as right without their accents, and nothing is said." },
+  { value: "warn", label: "Point Out", description: "Answers count as right, and the letters that needed an accent are highlighted." },
+  { value: "strict", label: "Strict", description: "A missing accent or an n for ñ makes the answer wrong." }
+];
 
 const Settings = () => {
+  const navigate = useNavigate();
+  const { allWords: words, words: deckWords, activeDeck } = useDeck();
   const [dailyGoal, setLocalDailyGoal] = useState(15);
+  const [scheduler, setScheduler] = useState<SchedulerId>("classic");
+  const [dayStartHour, setDayStartHour] = useState(4);
+  const [smoothDueDates, setSmoothDueDates] = useState(true);
+  const [maxNewPerDay, setMaxNewPerDay] = useState(10);
+  const [maxReviewsPerDay, setMaxReviewsPerDay] = useState(100);
+  const [targetRetention, setTargetRetention] = useState(0.9);
+  const [schedulerParams, setSchedulerParams] = useState<SchedulerParams | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizeMessage, setOptimizeMessage] = useState<string | null>(null);
+  const [learningSteps, setLearningSteps] = useState("1 10");
+  const [relearningSteps, setRelearningSteps] = useState("10");
+  const [leechThreshold, setLeechThreshold] = useState(8);
+  const [accentStrictness, setAccentStrictness] = useState<AccentStrictness>("warn");
+  const [maxStreakFreezes, setMaxStreakFreezes] = useState(2);
+  const [vacationSince, setVacationSince] = useState<string | null>(null);
+  const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null);
+  const [planGoal, setPlanGoal] = useState<PlanGoal>("see");
+  const [planGroups, setPlanGroups] = useState<string[]>([]);
+  const [planDate, setPlanDate] = useState("");
+  const [planning, setPlanning] = useState(false);
   const [stats, setStats] = useState({ learned: 0, mastered: 0, total: words.length, accuracy: 0 });
   const [ttsSettings, setTtsSettings] = useState(getTTSSettings());
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
@@ -51,11 +92,34 @@ const Settings = () => {
 
   const loadData = async () => {
     try {
-      const [progress, settings] = await Promise.all([
+      const [progress, settings, vacation, params] = await Promise.all([
         getProgressSummary(words),
-        getSettings()
+        getSettings(),
+        getVacation(),
+        getSchedulerParams()
       ]);
       setLocalDailyGoal(settings.dailyGoal);
+      setScheduler(settings.scheduler);
+      setDayStartHour(settings.dayStartHour);
+      setSmoothDueDates(settings.smoothDueDates);
+      setMaxNewPerDay(settings.maxNewPerDay);
+      setMaxReviewsPerDay(settings.maxReviewsPerDay);
+      setTargetRetention(settings.targetRetention);
+      setSchedulerParams(params);
+      setLearningSteps(formatSteps(settings.learningSteps));
+      setRelearningSteps(formatSteps(settings.relearningSteps));
+      setLeechThreshold(settings.leechThreshold);
+      setAccentStrictness(settings.accentStrictness);
+      setMaxStreakFreezes(settings.maxStreakFreezes);
+      setVacationSince(vacation?.since ?? null);
+      setStudyPlan(settings.studyPlan);
+      if (settings.studyPlan) {
+        setPlanGoal(settings.studyPlan.goal);
+        setPlanGroups([...new Set(settings.studyPlan.categories.map(getCategoryGroup))]);
+        setPlanDate(settings.studyPlan.targetDate);
+      } else {
+        setPlanDate(addDaysToDay(getStudyDay(settings.dayStartHour), DEFAULT_PLAN_DAYS));
+      }
       setStats({
         learned: progress.wordsLearned,
         mastered: progress.wordsMastered,
@@ -92,6 +156,124 @@ const Settings = () => {
     }
   };
 
+  const handleChangeScheduler = async (id: SchedulerId) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, scheduler: id });
+    setScheduler(id);
+  };
+
+  const handleChangeDayStart = async (hour: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, dayStartHour: hour });
+    setDayStartHour(hour);
+  };
+
+  const handleToggleSmoothing = async () => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, smoothDueDates: !smoothDueDates });
+    setSmoothDueDates(!smoothDueDates);
+  };
+
+  const handleChangeMaxNew = async (max: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, maxNewPerDay: max });
+    setMaxNewPerDay(max);
+  };
+
+  const handleChangeTargetRetention = async (retention: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, targetRetention: retention });
+    setTargetRetention(retention);
+  };
+
+  const handleOptimize = async () => {
+    setOptimizing(true);
+    setOptimizeMessage(null);
+    try {
+      const params = await optimizeScheduler();
+      if (params) {
+        setSchedulerParams(params);
+      } else {
+        setOptimizeMessage(`Not enough review history yet: at least ${MIN_REVIEWS} reviews of learned words are needed.`);
+      }
+    } catch (error) {
+      console.error("Optimizer error:", error);
+      setOptimizeMessage("Couldn't optimize. Please try again.");
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  const handleSaveSteps = async (key: "learningSteps" | "relearningSteps", text: string) => {
+    const steps = parseSteps(text);
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, [key]: steps });
+    (key === "learningSteps" ? setLearningSteps : setRelearningSteps)(formatSteps(steps));
+  };
+
+  const handleChangeReviewBudget = async (budget: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, maxReviewsPerDay: budget });
+    setMaxReviewsPerDay(budget);
+    // The plan is worked out within the limit
+    if (settings.studyPlan) {
+      setStudyPlan((await refreshStudyPlan(words))?.plan ?? null);
+    }
+  };
+
+  const handleChangeLeechThreshold = async (threshold: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, leechThreshold: threshold });
+    setLeechThreshold(threshold);
+  };
+
+  const handleChangeAccentStrictness = async (strictness: AccentStrictness) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, accentStrictness: strictness });
+    setAccentStrictness(strictness);
+  };
+
+  const handleChangeMaxStreakFreezes = async (max: number) => {
+    const settings = await getSettings();
+    await saveLearningSettings({ ...settings, maxStreakFreezes: max });
+    setMaxStreakFreezes(max);
+  };
+
+  const handleToggleVacation = async () => {
+    if (vacationSince) {
+      await endVacation();
+      setVacationSince(null);
+    } else {
+      const vacation = await startVacation();
+      setVacationSince(vacation.since);
+    }
+  };
+
+  const handleTogglePlanGroup = (group: string) => {
+    setPlanGroups(groups => groups.includes(group) ? groups.filter(g => g !== group) : [...groups, group]);
+  };
+
+  const handleCreatePlan = async () => {
+    if (!planDate) return;
+    setPlanning(true);
+    try {
+      const categories = [...new Set(words.map(w => w.category))]
+        .filter(category => planGroups.includes(getCategoryGroup(category)));
+      const plan = await createStudyPlan(words, { goal: planGoal, categories, targetDate: planDate });
+      setStudyPlan(plan);
+      setMaxNewPerDay(plan.newPerDay);
+    } catch (error) {
+      console.error("Planner error:", error);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const handleRemovePlan = async () => {
+    await clearStudyPlan();
+    setStudyPlan(null);
+  };
+
   const handleExport = async () => {
     const allStats = await getWordStats();
     // Convert to array for export
@@ -106,6 +288,19 @@ const Settings = () => {
     URL.revokeObjectURL(url);
   };
 
+  // Words of the selected deck as an Anki plain-text file, with their schedules
+  const handleExportAnki = async () => {
+    const text = exportAnkiNotes(deckWords, await getWordStats());
+    const blob = new Blob([text], { type: "text/tab-separated-values;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    const deckName = (activeDeck?.name || "words").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    a.href = url;
+    a.download = `espanish-${deckName}-anki-${new Date().toISOString().split('T')[0]}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleToggleAccent = async () => {
     const newAccent: 'es-ES' | 'es-MX' = ttsSettings.accent === "es-ES" ? "es-MX" : "es-ES";
     const updated = { ...ttsSettings, accent: newAccent };
@@ -150,6 +345,8 @@ const Settings = () => {
     await saveLearningSettings({ ...settings, ttsRate: rate });
   };
 
+  const categoryGroups = [...new Set(words.map(w => getCategoryGroup(w.category)))];
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -273,6 +470,284 @@ const Settings = () => {
                     </div>
                   </div>
 
+                  {/* Daily Limits */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-sm font-medium">New Words Per Day</label>
+                      <span className="font-bold text-primary">{maxNewPerDay}/day</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="50"
+                      step="1"
+                      value={maxNewPerDay}
+                      onChange={(e) => handleChangeMaxNew(parseInt(e.target.value, 10))}
+                      className="w-full accent-primary h-2 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-sm font-medium">Reviews Per Day</label>
+                      <span className="font-bold text-primary">{maxReviewsPerDay}/day</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="20"
+                      max="300"
+                      step="10"
+                      value={maxReviewsPerDay}
+                      onChange={(e) => handleChangeReviewBudget(parseInt(e.target.value, 10))}
+                      className="w-full accent-primary h-2 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Reviews over the limit carry over to the next days, most overdue first.
+                    </p>
+                  </div>
+
+                  {/* Learning Steps */}
+                  <div>
+                    <label className="text-sm font-medium block mb-2">Learning Steps (minutes)</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <input
+                          type="text"
+                          value={learningSteps}
+                          onChange={(e) => setLearningSteps(e.target.value)}
+                          onBlur={(e) => handleSaveSteps("learningSteps", e.target.value)}
+                          placeholder="1 10"
+                          className="w-full p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">New words</p>
+                      </div>
+                      <div>
+                        <input
+                          type="text"
+                          value={relearningSteps}
+                          onChange={(e) => setRelearningSteps(e.target.value)}
+                          onBlur={(e) => handleSaveSteps("relearningSteps", e.target.value)}
+                          placeholder="10"
+                          className="w-full p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">Forgotten words</p>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      New and forgotten words come back this many minutes later in the same session. Leave empty to skip.
+                    </p>
+                  </div>
+
+                  {/* Accents */}
+                  <div>
+                    <label className="text-sm font-medium block mb-2">Accent Mistakes</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {ACCENT_STRICTNESS_OPTIONS.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => handleChangeAccentStrictness(value)}
+                          className={cn(
+                            "p-3 rounded-lg border text-sm font-medium transition-colors",
+                            accentStrictness === value
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "bg-card hover:bg-accent/50"
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {ACCENT_STRICTNESS_OPTIONS.find(o => o.value === accentStrictness)?.description}
+                    </p>
+                  </div>
+
+                  {/* Scheduler */}
+                  <div>
+                    <label className="text-sm font-medium block mb-2">Review Scheduling</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Object.values(SCHEDULERS).map(({ id, label }) => (
+                        <button
+                          key={id}
+                          type="button"
+                          onClick={() => handleChangeScheduler(id)}
+                          className={cn(
+                            "p-3 rounded-lg border text-sm font-medium transition-colors",
+                            scheduler === id
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "bg-card hover:bg-accent/50"
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {scheduler === "classic"
+                        ? "Fixed steps: same day, 1, 3, 7, 14 and 30 days."
+                        : "Intervals grow with how easily you recall each word."}
+                    </p>
+                  </div>
+
+                  {/* Target Retention */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-sm font-medium">Target Retention</label>
+                      <span className="font-bold text-primary">{Math.round(targetRetention * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="70"
+                      max="97"
+                      step="1"
+                      value={Math.round(targetRetention * 100)}
+                      onChange={(e) => handleChangeTargetRetention(parseInt(e.target.value, 10) / 100)}
+                      className="w-full accent-primary h-2 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Share of reviews you want to get right. Higher means shorter intervals and more reviews
+                      (intervals ×{getIntervalModifier(targetRetention, schedulerParams).toFixed(2)}).
+                    </p>
+
+                    <div className="mt-3 p-3 rounded-lg border bg-card space-y-2">
+                      {schedulerParams ? (
+                        <p className="text-sm">
+                          Fitted to {schedulerParams.reviewCount} reviews on{" "}
+                          {new Date(schedulerParams.fittedAt).toLocaleDateString()}. On your latest reviews,
+                          kept out of the fit, you recalled{" "}
+                          <span className="font-bold">{Math.round(schedulerParams.actualRetention * 100)}%</span>
+                          {" "}and the model predicts{" "}
+                          <span className="font-bold">{Math.round(schedulerParams.predictedRetention * 100)}%</span>.
+                        </p>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          Intervals use the built-in defaults. Optimize to fit them to your own answers.
+                        </p>
+                      )}
+                      {optimizeMessage && <p className="text-xs text-muted-foreground">{optimizeMessage}</p>}
+                      <Button variant="outline" size="sm" onClick={handleOptimize} disabled={optimizing}>
+                        <Brain className="mr-2 h-4 w-4" /> {optimizing ? "Optimizing..." : "Optimize From My History"}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Day Rollover */}
+                  <div>
+                    <label className="text-sm font-medium block mb-2">New Day Starts At</label>
+                    <select
+                      value={dayStartHour}
+                      onChange={(e) => handleChangeDayStart(parseInt(e.target.value, 10))}
+                      className="w-full p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>
+                          {`${hour.toString().padStart(2, "0")}:00`}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Late-night study before this hour still counts toward the previous day.
+                    </p>
+                  </div>
+
+                  {/* Due Date Smoothing */}
+                  <div>
+                    <div
+                      className="flex items-center justify-between cursor-pointer"
+                      onClick={handleToggleSmoothing}
+                    >
+                      <div>
+                        <p className="text-sm font-medium">Spread Out Reviews</p>
+                        <p className="text-xs text-muted-foreground">Shift due dates by a day or two to stay under the review limit</p>
+                      </div>
+                      <div className={cn(
+                        "w-12 h-7 rounded-full p-1 transition-colors shrink-0",
+                        smoothDueDates ? "bg-primary" : "bg-input"
+                      )}>
+                        <div className={cn(
+                          "w-5 h-5 rounded-full bg-white shadow-sm transition-transform",
+                          smoothDueDates ? "translate-x-5" : "translate-x-0"
+                        )} />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Leeches */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-sm font-medium">Leech Threshold</label>
+                      <span className="font-bold text-primary">{leechThreshold} lapses</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="3"
+                      max="16"
+                      step="1"
+                      value={leechThreshold}
+                      onChange={(e) => handleChangeLeechThreshold(parseInt(e.target.value, 10))}
+                      className="w-full accent-primary h-2 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                    <div
+                      className="flex items-center justify-between p-3 mt-3 bg-secondary/50 rounded-lg cursor-pointer hover:bg-secondary transition-colors"
+                      onClick={() => navigate('/leeches')}
+                    >
+                      <span className="font-medium flex items-center gap-2">
+                        <Bug className="h-4 w-4 text-muted-foreground" /> Manage Leeches
+                      </span>
+                      <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  </div>
+
+                  {/* Streak Freezes */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-sm font-medium flex items-center gap-2">
+                        <Snowflake className="h-4 w-4 text-sky-500" /> Streak Freezes
+                      </label>
+                      <span className="font-bold text-primary">
+                        {maxStreakFreezes === 0 ? "Off" : `up to ${maxStreakFreezes}`}
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="1"
+                      value={maxStreakFreezes}
+                      onChange={(e) => handleChangeMaxStreakFreezes(parseInt(e.target.value, 10))}
+                      className="w-full accent-primary h-2 bg-secondary rounded-lg appearance-none cursor-pointer"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Earn a freeze for every 7-day streak. A freeze covers a missed day automatically.
+                    </p>
+                  </div>
+
+                  {/* Vacation Mode */}
+                  <div
+                    className="flex items-center justify-between cursor-pointer"
+                    onClick={handleToggleVacation}
+                  >
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <Palmtree className="h-4 w-4 text-emerald-500" /> Vacation Mode
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {vacationSince
+                          ? `On vacation since ${vacationSince}. Reviews resume where you left off.`
+                          : "Pause your streak and reviews while you're away"}
+                      </p>
+                    </div>
+                    <div className={cn(
+                      "w-12 h-7 rounded-full p-1 transition-colors shrink-0",
+                      vacationSince ? "bg-primary" : "bg-input"
+                    )}>
+                      <div className={cn(
+                        "w-5 h-5 rounded-full bg-white shadow-sm transition-transform",
+                        vacationSince ? "translate-x-5" : "translate-x-0"
+                      )} />
+                    </div>
+                  </div>
+
                   {/* Recommendations */}
                   <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
                     <p className="text-sm text-blue-800 dark:text-blue-200">
@@ -286,6 +761,103 @@ const Settings = () => {
 
           {/* Right Column */}
           <div className="space-y-6">
+            {/* Study Plan */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Flag size={18} /> Study Plan
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Pick a goal and a date. The plan sets how many new words you get each day, and adjusts daily if you fall behind.
+                </p>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {([["see", "See every word"], ["master", "Master every word"]] as const).map(([goal, label]) => (
+                    <button
+                      key={goal}
+                      type="button"
+                      onClick={() => setPlanGoal(goal)}
+                      className={cn(
+                        "p-3 rounded-lg border-2 text-sm font-medium transition-all",
+                        planGoal === goal
+                          ? "border-primary bg-primary/10"
+                          : "border-border hover:border-primary/50"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium block mb-2">Categories</label>
+                  <div className="flex flex-wrap gap-2">
+                    {categoryGroups.map(group => (
+                      <button
+                        key={group}
+                        type="button"
+                        onClick={() => handleTogglePlanGroup(group)}
+                        className={cn(
+                          "px-3 py-1 rounded-full border text-xs font-medium transition-colors",
+                          planGroups.includes(group)
+                            ? "border-primary bg-primary text-primary-foreground"
+                            : "border-border hover:border-primary/50"
+                        )}
+                      >
+                        {group}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {planGroups.length === 0 ? "None picked: the plan covers all words." : `${planGroups.length} picked`}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium block mb-2">By</label>
+                  <input
+                    type="date"
+                    value={planDate}
+                    min={addDaysToDay(getStudyDay(dayStartHour), 1)}
+                    onChange={(e) => setPlanDate(e.target.value)}
+                    className="w-full p-3 rounded-lg border bg-card text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button className="flex-1" onClick={handleCreatePlan} disabled={planning || !planDate}>
+                    {planning ? "Planning..." : studyPlan ? "Update Plan" : "Create Plan"}
+                  </Button>
+                  {studyPlan && (
+                    <Button variant="outline" onClick={handleRemovePlan}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+
+                {studyPlan && (
+                  <div className={cn(
+                    "rounded-lg p-3 text-sm",
+                    studyPlan.feasible ? "bg-secondary/50" : "bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300"
+                  )}>
+                    {studyPlan.feasible
+                      ? `${studyPlan.remaining} words to go: ${studyPlan.newPerDay} new words a day, up to ${getPeakReviews(studyPlan)} reviews on the busiest day.`
+                      : `${studyPlan.remaining} words to go is too many for this date, even at ${studyPlan.newPerDay} new words a day. Pick a later date.`}
+                  </div>
+                )}
+
+                {studyPlan && exceedsReviewLimit(studyPlan) && (
+                  <p className="text-sm text-amber-600 dark:text-amber-400 flex items-start gap-2">
+                    <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                    Some days have more reviews due than your limit of {maxReviewsPerDay}. The plan lets them wait
+                    for later days, but they come back overdue. Raise the limit or pick a later date.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Audio Settings */}
             {isTTSSupported() && (
               <Card>
@@ -371,6 +943,26 @@ const Settings = () => {
                   <Download className="mr-2" size={16} />
                   Export Progress (JSON)
                 </Button>
+
+                <Button variant="secondary" className="w-full" onClick={handleExportAnki}>
+                  <Download className="mr-2" size={16} />
+                  Export Deck for Anki ({deckWords.length} words)
+                </Button>
+
+                <Button variant="secondary" className="w-full" onClick={() => navigate("/decks")}>
+                  <Layers className="mr-2" size={16} />
+                  Manage Decks
+                </Button>
+
+                <Button variant="secondary" className="w-full" onClick={() => navigate("/settings/import")}>
+                  <Upload className="mr-2" size={16} />
+                  Import Words (CSV/TSV)
+                </Button>
+
+                <Button variant="secondary" className="w-full" onClick={() => navigate("/settings/import-anki")}>
+                  <Upload className="mr-2" size={16} />
+                  Import from Anki
+                </Button>
               </CardContent>
             </Card>
 
@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "../components/ui/Button";
+import { Card, CardContent } from "../components/ui/Card";
+import { ArrowLeft, Clock, StickyNote, Timer, Volume2 } from "lucide-react";
+import { getWordStats, getDifficultyLabel } from "../services/LearningEngine";
+import { formatInterval } from "../services/Scheduler";
+import { SKILLS, SKILL_LABELS } from "../services/SkillCards";
+import { speak, getTTSSettings } from "../services/TTSService";
+import { useDeck } from "../context/DeckContext";
+import type { WordStats } from "../types";
+
+const formatResponseTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const WordDetail = () => {
+  const navigate = useNavigate();
+  const { wordId } = useParams();
+  const { allWords } = useDeck();
+  const [stats, setStats] = useState<WordStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const word = allWords.find(w => w.id === wordId);
+
+  useEffect(() => {
+    getWordStats()
+      .then(allStats => setStats((wordId && allStats[wordId]) || null))
+      .catch(error => console.error("Error loading word stats:", error))
+      .finally(() => setLoading(false));
+  }, [wordId]);
+
+  const handlePlayAudio = async () => {
+    if (!word) return;
+    try {
+      const settings = getTTSSettings();
+      await speak(word.spanish, settings.accent, settings.rate);
+    } catch (e) {
+      console.error("TTS error:", e);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!word) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4">
+        <p className="text-muted-foreground">Word not found.</p>
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+      </div>
+    );
+  }
+
+  const accuracy = stats && stats.correct + stats.wrong > 0
+    ? Math.round((stats.correct / (stats.correct + stats.wrong)) * 100)
+    : null;
+  const slowestSample = stats ? Math.max(...stats.responseTimes, 1) : 1;
+
+  return (
+    <div className="min-h-screen pb-24">
+      {/* Header */}
+      <div className="bg-gradient-to-br from-primary/5 via-background to-accent/5 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate(-1)}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl sm:text-4xl font-bold">{word.spanish}</h1>
+            <button
+              type="button"
+              className="p-2 rounded-full hover:bg-accent transition-colors"
+              onClick={handlePlayAudio}
+              title="Listen"
+            >
+              <Volume2 className="h-5 w-5 text-muted-foreground" />
+            </button>
+          </div>
+          <p className="text-muted-foreground text-lg">{word.english}</p>
+          {word.pronunciation && (
+            <p className="text-sm text-muted-foreground/70 mt-1">/{word.pronunciation}/</p>
+          )}
+          <p className="text-xs text-muted-foreground mt-2">{word.category}</p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {word.example && (
+          <Card>
+            <CardContent className="p-5">
+              <p className="italic">"{word.example}"</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!stats ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              You haven't practised this word yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Overview */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-2xl font-black">{getDifficultyLabel(stats.level)}</p>
+                  <p className="text-xs text-muted-foreground">level</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-2xl font-black">{accuracy === null ? "–" : `${accuracy}%`}</p>
+                  <p className="text-xs text-muted-foreground">accuracy ({stats.seen} seen)</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-2xl font-black">{stats.lapses}</p>
+                  <p className="text-xs text-muted-foreground">lapses</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-2xl font-black">
+                    {stats.medianResponseMs === null ? "–" : formatResponseTime(stats.medianResponseMs)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">median answer time</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Answer times */}
+            {stats.responseTimes.length > 0 && (
+              <Card>
+                <CardContent className="p-5">
+                  <h2 className="font-bold flex items-center gap-2 mb-1">
+                    <Timer className="h-4 w-4 text-primary" /> Answer Times
+                  </h2>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Your last {stats.responseTimes.length} answers, oldest first. Slow correct answers are scheduled sooner.
+                  </p>
+                  <div className="flex items-end gap-1 h-24">
+                    {stats.responseTimes.map((ms, i) => (
+                      <div
+                        key={i}
+                        className="flex-1 rounded-t bg-primary/60"
+                        style={{ height: `${Math.max(4, (ms / slowestSample) * 100)}%` }}
+                        title={formatResponseTime(ms)}
+                      />
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Skill cards */}
+            <Card>
+              <CardContent className="p-5">
+                <h2 className="font-bold flex items-center gap-2 mb-4">
+                  <Clock className="h-4 w-4 text-primary" /> Skills
+                </h2>
+                <div className="space-y-3">
+                  {SKILLS.map(skill => {
+                    const card = stats.cards[skill];
+                    return (
+                      <div key={skill} className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{SKILL_LABELS[skill]}</span>
+                        {card && card.seen > 0 ? (
+                          <span className="text-muted-foreground">
+                            {getDifficultyLabel(card.level)} · every {formatInterval(card.interval)} · due {card.nextDue}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Not started</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {stats.note && (
+              <Card>
+                <CardContent className="p-5">
+                  <h2 className="font-bold flex items-center gap-2 mb-2">
+                    <StickyNote className="h-4 w-4 text-primary" /> Note
+                  </h2>
+                  <p className="text-sm whitespace-pre-wrap">{stats.note}</p>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WordDetail;
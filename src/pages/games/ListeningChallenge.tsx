@@ -1,6 +1,5 @@
-import { useState, useCallback } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import wordsData from "../../data/words.json";
 import { Card, CardContent } from "../../components/ui/Card";
 import { Button } from "../../components/ui/Button";
 import {
@@ -8,11 +7,12 @@ import {
     Zap, Home, Volume2, VolumeX
 } from "lucide-react";
 import { cn } from "../../lib/utils";
-import { updateStatsOnResult, saveGameScore } from "../../services/LearningEngine";
+import { updateStatsOnResult, saveGameScore, undoLastAnswer } from "../../services/LearningEngine";
 import { playWord, isAudioAvailable, replayLast } from "../../services/AudioService";
 import type { Word } from "../../types";
-
-const words = wordsData as Word[];
+import UndoToast from "../../components/UndoToast";
+import DeckSelector from "../../components/DeckSelector";
+import { useDeck } from "../../context/DeckContext";
 
 type Question = {
     word: Word;
@@ -20,6 +20,13 @@ type Question = {
     correctAnswer: string;
 };
 
+// Game state to go back to when an answer is undone
+type ListeningSnapshot = {
+    index: number;
+    score: number;
+    correctCount: number;
+};
+
 const shuffleArray = <T,>(array: T[]): T[] => {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
@@ -33,6 +40,7 @@ const TOTAL_QUESTIONS = 10;
 
 const ListeningChallenge = () => {
     const navigate = useNavigate();
+    const { words, allWords } = useDeck();
     const [gameStarted, setGameStarted] = useState(false);
     const [gameComplete, setGameComplete] = useState(false);
     const [questionIndex, setQuestionIndex] = useState(0);
@@ -43,13 +51,18 @@ const ListeningChallenge = () => {
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
     const [audioPlayed, setAudioPlayed] = useState(false);
     const [audioAvailable] = useState(isAudioAvailable());
+    const [undoTrigger, setUndoTrigger] = useState(0);
+    const [questionStartTime, setQuestionStartTime] = useState(0);
 
     const generateQuestions = useCallback((): Question[] => {
-        const selectedWords = shuffleArray(words).slice(0, TOTAL_QUESTIONS);
+        // Small decks repeat words to fill the round and borrow wrong choices from the other words
+        const shuffled = shuffleArray(words);
+        const selectedWords = Array.from({ length: TOTAL_QUESTIONS }, (_, i) => shuffled[i % shuffled.length]);
+        const choicePool = words.length > 3 ? words : allWords;
 
         return selectedWords.map(word => {
             const wrongChoices = shuffleArray(
-                words.filter(w => w.id !== word.id && w.english !== word.english)
+                choicePool.filter(w => w.id !== word.id && w.english !== word.english)
             ).slice(0, 3).map(w => w.english);
 
             return {
@@ -58,7 +71,7 @@ const ListeningChallenge = () => {
                 correctAnswer: word.english
             };
         });
-    }, []);
+    }, [words, allWords]);
 
     const startGame = useCallback(() => {
         const gameQuestions = generateQuestions();
@@ -94,8 +107,28 @@ const ListeningChallenge = () => {
         });
     };
 
+    // Time each answer from when its question appears
+    useEffect(() => {
+        if (gameStarted) setQuestionStartTime(Date.now());
+    }, [gameStarted, questionIndex]);
+
+    // Reopen the question whose answer was undone
+    const handleUndo = useCallback(async () => {
+        const undone = await undoLastAnswer<ListeningSnapshot>();
+        if (!undone?.session) return;
+
+        const snapshot = undone.session;
+        setQuestionIndex(snapshot.index);
+        setScore(snapshot.score);
+        setCorrectCount(snapshot.correctCount);
+        setAnswered(false);
+        setSelectedAnswer(null);
+    }, []);
+
     const handleAnswer = async (choice: string) => {
         if (answered || !questions[questionIndex]) return;
+        const snapshot: ListeningSnapshot = { index: questionIndex, score, correctCount };
+        const responseTimeMs = Date.now() - questionStartTime;
 
         setAnswered(true);
         setSelectedAnswer(choice);
@@ -106,10 +139,11 @@ const ListeningChallenge = () => {
         if (isCorrect) {
             setCorrectCount(prev => prev + 1);
             setScore(prev => prev + 100);
-            await updateStatsOnResult(currentQuestion.word.id, 'correct');
+            await updateStatsOnResult(currentQuestion.word.id, 'correct', { mode: 'listening', answerType: 'multiple_choice', skill: 'listening', responseTimeMs }, snapshot);
         } else {
-            await updateStatsOnResult(currentQuestion.word.id, 'wrong');
+            await updateStatsOnResult(currentQuestion.word.id, 'wrong', { mode: 'listening', answerType: 'multiple_choice', skill: 'listening', responseTimeMs }, snapshot);
         }
+        setUndoTrigger(t => t + 1);
     };
 
     const nextQuestion = () => {
@@ -173,6 +207,7 @@ const ListeningChallenge = () => {
                         </div>
                         <h1 className="text-4xl font-black tracking-tight">Listening Challenge</h1>
                         <p className="text-muted-foreground mt-2">Hear the Spanish word, pick the English meaning!</p>
+                        <DeckSelector className="justify-center mt-4" />
                     </header>
 
                     <Card className="mb-6">
@@ -201,6 +236,7 @@ const ListeningChallenge = () => {
                         size="lg"
                         className="w-full py-8 text-xl font-black bg-gradient-to-r from-orange-500 via-amber-500 to-yellow-500"
                         onClick={startGame}
+                        disabled={words.length === 0}
                     >
                         <Zap className="mr-3 h-6 w-6" />
                         Start Listening!
@@ -262,6 +298,7 @@ const ListeningChallenge = () => {
 
     return (
         <div className="min-h-[calc(100vh-80px)] p-4 lg:p-8">
+            <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
             <div className="max-w-2xl mx-auto">
                 {/* Header */}
                 <div className="flex items-center justify-between mb-6">
@@ -1,6 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import wordsData from "../../data/words.json";
 import { Card, CardContent } from "../../components/ui/Card";
 import { Button } from "../../components/ui/Button";
 import {
@@ -8,10 +7,10 @@ import {
     Zap, CheckCircle, XCircle, Home
 } from "lucide-react";
 import { cn } from "../../lib/utils";
-import { updateStatsOnResult, saveGameScore } from "../../services/LearningEngine";
-import type { Word } from "../../types";
-
-const words = wordsData as Word[];
+import { updateStatsOnResult, saveGameScore, undoLastAnswer } from "../../services/LearningEngine";
+import UndoToast from "../../components/UndoToast";
+import DeckSelector from "../../components/DeckSelector";
+import { useDeck } from "../../context/DeckContext";
 
 type CardType = {
     id: string;
@@ -24,6 +23,11 @@ type CardType = {
 
 type TimerMode = 30 | 60;
 
+// The pair to turn back over when a match is undone
+type MatchSnapshot = {
+    pair: [string, string];
+};
+
 const shuffleArray = <T,>(array: T[]): T[] => {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
@@ -35,6 +39,7 @@ const shuffleArray = <T,>(array: T[]): T[] => {
 
 const QuickMatch = () => {
     const navigate = useNavigate();
+    const { words } = useDeck();
     const [gameStarted, setGameStarted] = useState(false);
     const [gameComplete, setGameComplete] = useState(false);
     const [timerMode, setTimerMode] = useState<TimerMode>(60);
@@ -46,6 +51,8 @@ const QuickMatch = () => {
     const [moves, setMoves] = useState(0);
     const [score, setScore] = useState(0);
     const [isChecking, setIsChecking] = useState(false);
+    const [undoTrigger, setUndoTrigger] = useState(0);
+    const [pairStartTime, setPairStartTime] = useState(0);
 
     // Timer effect
     useEffect(() => {
@@ -74,7 +81,8 @@ const QuickMatch = () => {
         const secondCard = cards.find(c => c.id === second);
 
         if (firstCard && secondCard && firstCard.wordId === secondCard.wordId && firstCard.lang !== secondCard.lang) {
-            // Match!
+            // Match! Timed from turning over the first card of the pair
+            const responseTimeMs = Date.now() - pairStartTime;
             setTimeout(() => {
                 setCards(prev => prev.map(c =>
                     c.id === first || c.id === second ? { ...c, matched: true } : c
@@ -90,7 +98,10 @@ const QuickMatch = () => {
                 setIsChecking(false);
 
                 // Update SRS stats
-                updateStatsOnResult(firstCard.wordId, 'correct');
+                const snapshot: MatchSnapshot = { pair: [first, second] };
+                updateStatsOnResult(firstCard.wordId, 'correct', { mode: 'quick-match', answerType: 'match', skill: 'recognition', responseTimeMs }, snapshot)
+                    .catch(error => console.error('Error saving answer:', error));
+                setUndoTrigger(t => t + 1);
             }, 500);
         } else {
             // No match
@@ -131,7 +142,7 @@ const QuickMatch = () => {
         });
 
         setCards(shuffleArray(gameCards));
-        setTotalPairs(numPairs);
+        setTotalPairs(selectedWords.length);
         setMatchedPairs(0);
         setMoves(0);
         setTimeLeft(mode);
@@ -140,7 +151,7 @@ const QuickMatch = () => {
         setGameComplete(false);
         setFlippedCards([]);
         setScore(0);
-    }, []);
+    }, [words]);
 
     const endGame = async (won: boolean) => {
         setGameComplete(true);
@@ -163,12 +174,25 @@ const QuickMatch = () => {
         });
     };
 
+    // Turn the undone pair face down again
+    const handleUndo = useCallback(async () => {
+        const undone = await undoLastAnswer<MatchSnapshot>();
+        if (!undone?.session) return;
+
+        const [first, second] = undone.session.pair;
+        setCards(prev => prev.map(c =>
+            c.id === first || c.id === second ? { ...c, matched: false, flipped: false } : c
+        ));
+        setMatchedPairs(prev => Math.max(0, prev - 1));
+    }, []);
+
     const flipCard = (cardId: string) => {
         if (isChecking || flippedCards.length >= 2) return;
 
         const card = cards.find(c => c.id === cardId);
         if (!card || card.matched || card.flipped) return;
 
+        if (flippedCards.length === 0) setPairStartTime(Date.now());
         setCards(prev => prev.map(c =>
             c.id === cardId ? { ...c, flipped: true } : c
         ));
@@ -196,6 +220,7 @@ const QuickMatch = () => {
                         </div>
                         <h1 className="text-4xl font-black tracking-tight">Quick Match</h1>
                         <p className="text-muted-foreground mt-2">Match Spanish words with their English translations!</p>
+                        <DeckSelector className="justify-center mt-4" />
                     </header>
 
                     <div className="space-y-6">
@@ -237,6 +262,7 @@ const QuickMatch = () => {
                             size="lg"
                             className="w-full py-8 text-xl font-black bg-gradient-to-r from-purple-500 via-pink-500 to-rose-500 hover:from-purple-600 hover:via-pink-600 hover:to-rose-600"
                             onClick={() => startGame(timerMode)}
+                            disabled={words.length === 0}
                         >
                             <Zap className="mr-3 h-6 w-6" />
                             Start Game
@@ -298,6 +324,7 @@ const QuickMatch = () => {
     // Active Game
     return (
         <div className="min-h-[calc(100vh-80px)] p-4 lg:p-8">
+            <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
             <div className="max-w-4xl mx-auto">
                 {/* Header */}
                 <div className="flex items-center justify-between mb-6">
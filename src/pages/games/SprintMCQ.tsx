@@ -1,6 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import wordsData from "../../data/words.json";
 import { Card, CardContent } from "../../components/ui/Card";
 import { Button } from "../../components/ui/Button";
 import {
@@ -8,17 +7,28 @@ import {
     Zap, Flame, Home, Target
 } from "lucide-react";
 import { cn } from "../../lib/utils";
-import { updateStatsOnResult, saveGameScore } from "../../services/LearningEngine";
+import { updateStatsOnResult, saveGameScore, undoLastAnswer } from "../../services/LearningEngine";
+import UndoToast from "../../components/UndoToast";
+import DeckSelector from "../../components/DeckSelector";
+import { useDeck } from "../../context/DeckContext";
 import type { Word } from "../../types";
 
-const words = wordsData as Word[];
-
 type Question = {
     word: Word;
     choices: string[];
     correctAnswer: string;
 };
 
+// Game state to go back to when an answer is undone
+type SprintSnapshot = {
+    question: Question;
+    score: number;
+    streak: number;
+    maxStreak: number;
+    correctCount: number;
+    totalAnswered: number;
+};
+
 const shuffleArray = <T,>(array: T[]): T[] => {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
@@ -34,6 +44,7 @@ const STREAK_MULTIPLIERS = [1, 1.5, 2, 2.5, 3];
 
 const SprintMCQ = () => {
     const navigate = useNavigate();
+    const { words, allWords } = useDeck();
     const [gameStarted, setGameStarted] = useState(false);
     const [gameComplete, setGameComplete] = useState(false);
     const [timeLeft, setTimeLeft] = useState(60);
@@ -47,6 +58,8 @@ const SprintMCQ = () => {
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
     const [showStreakBonus, setShowStreakBonus] = useState(false);
     const [lastPoints, setLastPoints] = useState(0);
+    const [undoTrigger, setUndoTrigger] = useState(0);
+    const [questionStartTime, setQuestionStartTime] = useState(0);
 
     // Timer
     useEffect(() => {
@@ -67,8 +80,10 @@ const SprintMCQ = () => {
 
     const generateQuestion = useCallback((): Question => {
         const word = words[Math.floor(Math.random() * words.length)];
+        // Small decks borrow wrong choices from the other words
+        const choicePool = words.length > 3 ? words : allWords;
         const wrongChoices = shuffleArray(
-            words.filter(w => w.id !== word.id && w.english !== word.english)
+            choicePool.filter(w => w.id !== word.id && w.english !== word.english)
         ).slice(0, 3).map(w => w.english);
 
         return {
@@ -76,7 +91,7 @@ const SprintMCQ = () => {
             choices: shuffleArray([word.english, ...wrongChoices]),
             correctAnswer: word.english
         };
-    }, []);
+    }, [words, allWords]);
 
     const startGame = useCallback(() => {
         setTimeLeft(60);
@@ -106,8 +121,31 @@ const SprintMCQ = () => {
         });
     };
 
+    // Time each answer from when its question appears
+    useEffect(() => {
+        if (question) setQuestionStartTime(Date.now());
+    }, [question]);
+
+    // Bring back the question whose answer was undone
+    const handleUndo = useCallback(async () => {
+        const undone = await undoLastAnswer<SprintSnapshot>();
+        if (!undone?.session) return;
+
+        const snapshot = undone.session;
+        setQuestion(snapshot.question);
+        setScore(snapshot.score);
+        setStreak(snapshot.streak);
+        setMaxStreak(snapshot.maxStreak);
+        setCorrectCount(snapshot.correctCount);
+        setTotalAnswered(snapshot.totalAnswered);
+        setAnswered(false);
+        setSelectedAnswer(null);
+    }, []);
+
     const handleAnswer = async (choice: string) => {
         if (answered || !question) return;
+        const snapshot: SprintSnapshot = { question, score, streak, maxStreak, correctCount, totalAnswered };
+        const responseTimeMs = Date.now() - questionStartTime;
 
         setAnswered(true);
         setSelectedAnswer(choice);
@@ -133,11 +171,12 @@ const SprintMCQ = () => {
                 setTimeout(() => setShowStreakBonus(false), 500);
             }
 
-            await updateStatsOnResult(question.word.id, 'correct');
+            await updateStatsOnResult(question.word.id, 'correct', { mode: 'sprint', answerType: 'multiple_choice', skill: 'recognition', responseTimeMs }, snapshot);
         } else {
             setStreak(0);
-            await updateStatsOnResult(question.word.id, 'wrong');
+            await updateStatsOnResult(question.word.id, 'wrong', { mode: 'sprint', answerType: 'multiple_choice', skill: 'recognition', responseTimeMs }, snapshot);
         }
+        setUndoTrigger(t => t + 1);
 
         // Quick transition to next question
         setTimeout(() => {
@@ -168,6 +207,7 @@ const SprintMCQ = () => {
                         </div>
                         <h1 className="text-4xl font-black tracking-tight">Sprint MCQ</h1>
                         <p className="text-muted-foreground mt-2">60 seconds of rapid-fire multiple choice!</p>
+                        <DeckSelector className="justify-center mt-4" />
                     </header>
 
                     <Card className="mb-6">
@@ -196,6 +236,7 @@ const SprintMCQ = () => {
                         size="lg"
                         className="w-full py-8 text-xl font-black bg-gradient-to-r from-green-500 via-emerald-500 to-teal-500"
                         onClick={startGame}
+                        disabled={words.length === 0}
                     >
                         <Zap className="mr-3 h-6 w-6" />
                         Start Sprint!
@@ -255,6 +296,7 @@ const SprintMCQ = () => {
     // Active Game
     return (
         <div className="min-h-[calc(100vh-80px)] p-4 lg:p-8">
+            <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
             <div className="max-w-2xl mx-auto">
                 {/* Header */}
                 <div className="flex items-center justify-between mb-6">
@@ -1,6 +1,5 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { useNavigate } from "react-router-dom";
-import wordsData from "../../data/words.json";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Card, CardContent } from "../../components/ui/Card";
 import { Button } from "../../components/ui/Button";
 import {
@@ -8,21 +7,37 @@ import {
     Zap, Lightbulb, Home, Eye, ArrowRight
 } from "lucide-react";
 import { cn } from "../../lib/utils";
-import { updateStatsOnResult, saveGameScore, buildDailyQueue, getSettings } from "../../services/LearningEngine";
+import { updateStatsOnResult, saveGameScore, buildDailyQueue, undoLastAnswer, getSettings } from "../../services/LearningEngine";
+import UndoToast from "../../components/UndoToast";
+import DeckSelector from "../../components/DeckSelector";
+import AccentFeedback from "../../components/AccentFeedback";
+import AnswerDiff from "../../components/AnswerDiff";
+import { useDeck } from "../../context/DeckContext";
+import { evaluateAnswers, getAcceptedAnswers, isAcceptedOutcome, classifyMistakes, type AccentStrictness } from "../../utils/text";
 import type { Word } from "../../types";
 
-const words = wordsData as Word[];
-
-const normalizeText = (text: string): string => {
-    return text
-        .toLowerCase()
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '') // Remove accents
-        .trim();
+// Game state to go back to when an answer is undone
+type TypeItSnapshot = {
+    index: number;
+    score: number;
+    correctCount: number;
+    streak: number;
+    maxStreak: number;
+    hintUsed: boolean;
 };
 
 const TypeIt = () => {
     const navigate = useNavigate();
+    const location = useLocation();
+    const { words, allWords } = useDeck();
+    // A drill opened from the common mistakes list: only the words that went wrong
+    const drill = location.state as { wordIds?: string[]; title?: string } | null;
+    const drillIds = drill?.wordIds;
+    const drillWords = useMemo(
+        () => drillIds ? allWords.filter(w => drillIds.includes(w.id)) : null,
+        [drillIds, allWords]
+    );
+    const pool = drillWords && drillWords.length > 0 ? drillWords : words;
     const inputRef = useRef<HTMLInputElement>(null);
     const [gameStarted, setGameStarted] = useState(false);
     const [gameComplete, setGameComplete] = useState(false);
@@ -36,21 +51,23 @@ const TypeIt = () => {
     const [showHint, setShowHint] = useState(false);
     const [answered, setAnswered] = useState(false);
     const [isCorrect, setIsCorrect] = useState(false);
+    const [evaluation, setEvaluation] = useState<ReturnType<typeof evaluateAnswers> | null>(null);
+    const [accentStrictness, setAccentStrictness] = useState<AccentStrictness>("warn");
     const [hintUsed, setHintUsed] = useState(false);
+    const [undoTrigger, setUndoTrigger] = useState(0);
+    const [questionStartTime, setQuestionStartTime] = useState(0);
 
     const TOTAL_QUESTIONS = 10;
 
     const loadQuestions = useCallback(async () => {
         // Prioritize due/wrong/new words
-        const settings = await getSettings();
-        const queue = await buildDailyQueue(words, settings.dailyGoal);
+        const queue = await buildDailyQueue(pool, { forStudy: true });
 
         // Combine queues with priority
         let prioritizedWords = [
             ...queue.dueWords,
             ...queue.recentlyWrong,
-            ...queue.newWords,
-            ...queue.mixedReview
+            ...queue.newWords
         ];
 
         // Shuffle and take first N
@@ -60,15 +77,21 @@ const TypeIt = () => {
 
         // If not enough, fill with random words
         if (prioritizedWords.length < TOTAL_QUESTIONS) {
-            const remaining = words
+            const remaining = pool
                 .filter(w => !prioritizedWords.find(p => p.id === w.id))
                 .sort(() => Math.random() - 0.5)
                 .slice(0, TOTAL_QUESTIONS - prioritizedWords.length);
             prioritizedWords = [...prioritizedWords, ...remaining];
         }
 
+        // Small decks repeat words to fill the round
+        if (prioritizedWords.length > 0 && prioritizedWords.length < TOTAL_QUESTIONS) {
+            const deckWords = prioritizedWords;
+            prioritizedWords = Array.from({ length: TOTAL_QUESTIONS }, (_, i) => deckWords[i % deckWords.length]);
+        }
+
         return prioritizedWords;
-    }, []);
+    }, [pool]);
 
     const startGame = useCallback(async () => {
         const gameQuestions = await loadQuestions();
@@ -103,14 +126,45 @@ const TypeIt = () => {
         });
     };
 
+    useEffect(() => {
+        getSettings().then(settings => setAccentStrictness(settings.accentStrictness));
+    }, []);
+
+    // Time each answer from when its question appears
+    useEffect(() => {
+        if (gameStarted) setQuestionStartTime(Date.now());
+    }, [gameStarted, questionIndex]);
+
+    // Reopen the question whose answer was undone
+    const handleUndo = useCallback(async () => {
+        const undone = await undoLastAnswer<TypeItSnapshot>();
+        if (!undone?.session) return;
+
+        const snapshot = undone.session;
+        setQuestionIndex(snapshot.index);
+        setScore(snapshot.score);
+        setCorrectCount(snapshot.correctCount);
+        setStreak(snapshot.streak);
+        setMaxStreak(snapshot.maxStreak);
+        setHintUsed(snapshot.hintUsed);
+        setShowHint(snapshot.hintUsed);
+        setUserInput("");
+        setAnswered(false);
+        setIsCorrect(false);
+        setTimeout(() => inputRef.current?.focus(), 100);
+    }, []);
+
     const checkAnswer = async () => {
         if (answered || !questions[questionIndex]) return;
+        const snapshot: TypeItSnapshot = { index: questionIndex, score, correctCount, streak, maxStreak, hintUsed };
+        const responseTimeMs = Date.now() - questionStartTime;
 
         const currentWord = questions[questionIndex];
-        const normalizedInput = normalizeText(userInput);
-        const normalizedAnswer = normalizeText(currentWord.spanish);
-
-        const correct = normalizedInput === normalizedAnswer;
+        const result = evaluateAnswers(userInput, getAcceptedAnswers(currentWord, "spanish"), accentStrictness);
+        // Spelling has to be exact here; only accent mistakes can be let off
+        const correct = result.outcome !== "Close" && isAcceptedOutcome(result.outcome, accentStrictness);
+        const mistakes = classifyMistakes(userInput, result.matched, currentWord.english);
+        setEvaluation(result);
         setIsCorrect(correct);
         setAnswered(true);
 
@@ -127,11 +181,12 @@ const TypeIt = () => {
             const points = Math.round(basePoints * hintPenalty * streakBonus);
             setScore(prev => prev + points);
 
-            await updateStatsOnResult(currentWord.id, 'correct');
+            await updateStatsOnResult(currentWord.id, 'correct', { mode: 'type-it', answerType: 'typed', skill: 'production', responseTimeMs, mistakes }, snapshot);
         } else {
             setStreak(0);
-            await updateStatsOnResult(currentWord.id, 'wrong');
+            await updateStatsOnResult(currentWord.id, 'wrong', { mode: 'type-it', answerType: 'typed', skill: 'production', responseTimeMs, mistakes }, snapshot);
         }
+        setUndoTrigger(t => t + 1);
     };
 
     const nextQuestion = () => {
@@ -180,6 +235,13 @@ const TypeIt = () => {
                         </div>
                         <h1 className="text-4xl font-black tracking-tight">Type It</h1>
                         <p className="text-muted-foreground mt-2">See the English, type the Spanish!</p>
+                        {drillWords && drillWords.length > 0 ? (
+                            <p className="mt-4 text-sm font-medium text-blue-600 dark:text-blue-400">
+                                Drill: {drill?.title || "Common mistakes"} · {drillWords.length} {drillWords.length === 1 ? "word" : "words"}
+                            </p>
+                        ) : (
+                            <DeckSelector className="justify-center mt-4" />
+                        )}
                     </header>
 
                     <Card className="mb-6">
@@ -208,6 +270,7 @@ const TypeIt = () => {
                         size="lg"
                         className="w-full py-8 text-xl font-black bg-gradient-to-r from-blue-500 via-indigo-500 to-violet-500"
                         onClick={startGame}
+                        disabled={pool.length === 0}
                     >
                         <Zap className="mr-3 h-6 w-6" />
                         Start Typing!
@@ -270,6 +333,7 @@ const TypeIt = () => {
 
     return (
         <div className="min-h-[calc(100vh-80px)] p-4 lg:p-8">
+            <UndoToast trigger={undoTrigger} onUndo={handleUndo} />
             <div className="max-w-2xl mx-auto">
                 {/* Header */}
                 <div className="flex items-center justify-between mb-6">
@@ -342,14 +406,22 @@ const TypeIt = () => {
                             isCorrect ? "bg-green-100 dark:bg-green-900/30" : "bg-red-100 dark:bg-red-900/30"
                         )}>
                             <p className={cn("text-lg font-bold", isCorrect ? "text-green-600" : "text-red-600")}>
-                                {isCorrect ? "✅ Correct!" : "❌ Incorrect"}
+                                {evaluation?.outcome === "AccentError"
+                                    ? (isCorrect ? "✅ Correct, mind the accent!" : "❌ Missing accent")
+                                    : isCorrect ? "✅ Correct!" : "❌ Incorrect"}
                             </p>
+                            {evaluation?.outcome === "AccentError" && (
+                                <AccentFeedback target={evaluation.matched} mistakes={evaluation.accentMistakes} />
+                            )}
                             <p className="text-muted-foreground">
-                                Answer: <strong className="text-foreground">{currentWord.spanish}</strong>
+                                Answer: <strong className="text-foreground">{getAcceptedAnswers(currentWord, "spanish").join(" · ")}</strong>
                                 {currentWord.pronunciation && (
                                     <span className="text-blue-500 ml-2">[{currentWord.pronunciation}]</span>
                                 )}
                             </p>
+                            {(evaluation?.outcome === "Close" || evaluation?.outcome === "Incorrect") && (
+                                <AnswerDiff typed={userInput} target={evaluation.matched} />
+                            )}
                         </div>
                     )}
 
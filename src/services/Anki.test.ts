@@ -0,0 +1,62 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clear } from 'idb-keyval';
+import { exportAnkiNotes, matchExistingWords, parseAnkiNotes } from './Anki';
+import { BUILT_IN_WORDS } from './Decks';
+import { clearUndoHistory, getWordStats, importSchedules, updateStatsOnResult } from './LearningEngine';
+import { clearReviewLog } from './ReviewLog';
+
+const [first, second] = BUILT_IN_WORDS;
+
+beforeEach(async () => {
+    await clear();
+    await clearReviewLog();
+    clearUndoHistory();
+});
+
+describe('Anki round trip', () => {
+    it('matches re-imported notes to the words they came from', async () => {
+        await updateStatsOnResult(first.id, 'correct', { mode: 'learn', answerType: 'reveal', skill: 'recognition' });
+        const text = exportAnkiNotes([first, second], await getWordStats());
+
+        const { notes } = parseAnkiNotes(text);
+        expect(notes.map(note => note.sourceId)).toEqual([first.id, second.id]);
+        expect(matchExistingWords(notes, BUILT_IN_WORDS)).toEqual([first, second]);
+        expect(notes[0].interval).not.toBeNull();
+        expect(notes[1].interval).toBeNull();
+    });
+
+    it('matches by Spanish text when a note has no id', () => {
+        const { notes } = parseAnkiNotes(`${first.spanish.toUpperCase()}\t${first.english}\nzzz-new\tnew word\n`);
+        expect(matchExistingWords(notes, BUILT_IN_WORDS)).toEqual([first, null]);
+    });
+
+    it('brings no schedules back from a file exported by Anki', () => {
+        // Anki keeps only the two Basic fields and the tags, and exports no scheduling
+        const text = [
+            '#separator:tab',
+            '#html:true',
+            '#tags column:3',
+            `${first.spanish}\t${first.english}\tsome_tag`,
+            'zzz-new\tnew word\t'
+        ].join('\n') + '\n';
+
+        const { notes, hasSchedules } = parseAnkiNotes(text);
+        expect(hasSchedules).toBe(false);
+        expect(notes.map(note => [note.interval, note.due, note.sourceId])).toEqual([[null, null, null], [null, null, null]]);
+        expect(matchExistingWords(notes, BUILT_IN_WORDS)).toEqual([first, null]);
+    });
+
+    it('applies an imported schedule to a word practised here', async () => {
+        await updateStatsOnResult(first.id, 'correct', { mode: 'learn', answerType: 'reveal', skill: 'recognition' });
+        const before = (await getWordStats())[first.id];
+
+        expect(await importSchedules([{ wordId: first.id, interval: 40, nextDue: '2030-01-01' }])).toBe(1);
+
+        const after = (await getWordStats())[first.id];
+        expect(after.cards.recognition?.interval).toBe(40);
+        expect(after.cards.recognition?.nextDue).toBe('2030-01-01');
+        expect(after.seen).toBe(before.seen);
+        expect(after.correct).toBe(before.correct);
+    });
+});
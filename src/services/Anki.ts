@@ -0,0 +1,251 @@
+/**
+ * Anki - moving words and their schedules to and from Anki
+ *
+ * Export writes Anki's "Notes in Plain Text" format: tab-separated fields
+ * with header lines telling Anki the separator, the note type and which
+ * column holds the tags. The word's category becomes its tag, and its
+ * interval, due date and id go in columns of their own, so the app's own
+ * export file can be imported again with its schedules. Anki itself can't
+ * carry them: the Basic note type keeps only the first two fields, and its
+ * plain-text export has no scheduling. Import reads the same format, as
+ * Anki writes it, back into words, matching notes to words already in the
+ * app by id or Spanish text.
+ */
+
+import {
+    convertWordTable,
+    parseRecords,
+    DEFAULT_CATEGORY,
+    type ColumnMapping,
+    type Delimiter,
+    type ImportRow
+} from '../utils/wordImport';
+import type { Word, WordStats } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AnkiNote extends ImportRow {
+    interval: number | null; // days, when the file has scheduling columns
+    due: string | null; // study day
+    sourceId: string | null; // word id written by exportAnkiNotes, if any
+}
+
+export interface AnkiImport {
+    notes: AnkiNote[];
+    skipped: number; // notes without a front or a back
+    hasSchedules: boolean; // the file came with intervals
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EXPORT_COLUMNS = ['Spanish', 'English', 'Pronunciation', 'Example', 'Interval', 'Due', 'Id', 'Tags'];
+
+// Separators Anki names in its #separator header
+const SEPARATOR_NAMES: Record<string, Delimiter> = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';'
+};
+
+// Tags Anki adds itself, which aren't categories
+const ANKI_TAGS = ['leech', 'marked'];
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Quote a field when it holds a tab, a line break or a quote
+ */
+function escapeField(value: string): string {
+    return /[\t\r\n"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Anki tags can't contain spaces
+function categoryToTag(category: string): string {
+    return category.trim().replace(/\s+/g, '_');
+}
+
+function tagToCategory(tag: string): string {
+    return tag.replace(/_/g, ' ');
+}
+
+/**
+ * Write words as an Anki plain-text file. Words that were practised get
+ * their interval and next due date; the rest leave those columns empty.
+ */
+export function exportAnkiNotes(words: Word[], allStats: Record<string, WordStats>): string {
+    const header = [
+        '#separator:tab',
+        '#html:false',
+        '#notetype:Basic',
+        `#columns:${EXPORT_COLUMNS.join('\t')}`,
+        `#tags column:${EXPORT_COLUMNS.indexOf('Tags') + 1}`
+    ];
+
+    const lines = words.map(word => {
+        const stats = allStats[word.id];
+        const practised = !!stats && stats.seen > 0;
+        return [
+            word.spanish,
+            word.english,
+            word.pronunciation || '',
+            word.example || '',
+            practised ? String(Math.round(stats.interval)) : '',
+            practised ? stats.nextDue || '' : '',
+            word.id,
+            categoryToTag(word.category)
+        ].map(escapeField).join('\t');
+    });
+
+    return [...header, ...lines].join('\n') + '\n';
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Plain text of an HTML field: line breaks become spaces, tags and
+ * [sound:…] references are dropped and entities are decoded
+ */
+function stripHtml(value: string): string {
+    return value
+        .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/\[sound:[^\]]*\]/g, '')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+            if (code[0] === '#') {
+                const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+                return String.fromCodePoint(point);
+            }
+            return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Read an Anki plain-text export into words. The first field is the
+ * Spanish and the second the English, unless `swapSides` is set for decks
+ * that ask in English. The first tag becomes the category. Interval and
+ * Due columns, as written by exportAnkiNotes, are kept with each note; a
+ * file exported from Anki has none, so `hasSchedules` is false.
+ */
+export function parseAnkiNotes(
+    text: string,
+    swapSides: boolean = false,
+    existingIds: Iterable<string> = []
+): AnkiImport {
+    const headers: Record<string, string> = {};
+    const body: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const header = line.match(/^#([a-z ]+):(.*)$/i);
+        if (header && body.length === 0) {
+            headers[header[1].trim().toLowerCase()] = header[2].trim();
+        } else {
+            body.push(line);
+        }
+    }
+
+    const separator = headers.separator || 'tab';
+    const delimiter = SEPARATOR_NAMES[separator.toLowerCase()]
+        ?? (separator === ',' || separator === ';' ? separator : '\t');
+    const html = headers.html !== 'false';
+    const records = parseRecords(body.join('\n'), delimiter);
+
+    // Columns that aren't note fields, given 1-based in the headers
+    const column = (name: string) => {
+        const value = parseInt(headers[`${name} column`], 10);
+        return Number.isNaN(value) ? null : value - 1;
+    };
+    const tagsColumn = column('tags');
+    const metaColumns = new Set([column('guid'), column('notetype'), column('deck'), tagsColumn]);
+
+    // Fields named by #columns, if any; otherwise front, back and extras in order
+    const names = (headers.columns?.split(delimiter) || []).map(name => name.trim().toLowerCase());
+    const width = Math.max(0, ...records.map(record => record.length));
+    const fieldColumns = Array.from({ length: width }, (_, i) => i).filter(i => !metaColumns.has(i));
+    const named = (name: string) => {
+        const index = names.indexOf(name);
+        return index === -1 ? null : index;
+    };
+
+    const [front = null, back = null] = fieldColumns;
+    const mapping: ColumnMapping = {
+        spanish: named('spanish') ?? (swapSides ? back : front),
+        english: named('english') ?? (swapSides ? front : back),
+        category: width,
+        pronunciation: named('pronunciation'),
+        example: named('example')
+    };
+    const intervalColumn = named('interval');
+    const dueColumn = named('due');
+    const idColumn = named('id');
+
+    // Clean each field and add the category from the tags as an extra column
+    const rows = records.map(record => {
+        const cleaned = record.map(value => html ? stripHtml(value) : value);
+        const tags = tagsColumn === null ? [] : (record[tagsColumn] || '').split(/\s+/);
+        const tag = tags.find(t => t && !ANKI_TAGS.includes(t.toLowerCase()));
+        cleaned[width] = tag ? tagToCategory(tag) : DEFAULT_CATEGORY;
+        return cleaned;
+    });
+
+    const { rows: converted, skipped } = convertWordTable(
+        { headers: names, rows, delimiter },
+        mapping,
+        existingIds
+    );
+
+    const notes = converted.map(row => {
+        const record = rows[row.row - 1];
+        const interval = intervalColumn === null ? NaN : parseFloat(record[intervalColumn]);
+        const due = dueColumn === null ? '' : record[dueColumn] || '';
+        const sourceId = idColumn === null ? '' : (record[idColumn] || '').trim();
+        return {
+            ...row,
+            interval: Number.isNaN(interval) ? null : interval,
+            due: /^\d{4}-\d{2}-\d{2}/.test(due) ? due.slice(0, 10) : null,
+            sourceId: sourceId || null
+        };
+    });
+
+    return { notes, skipped, hasSchedules: notes.some(note => note.interval !== null) };
+}
+
+function spanishKey(spanish: string): string {
+    return spanish.normalize('NFC').trim().toLowerCase();
+}
+
+/**
+ * The word already in the app that each note stands for: the one with the
+ * note's exported id, else the one with the same Spanish. Null for new words.
+ */
+export function matchExistingWords(notes: AnkiNote[], words: Word[]): (Word | null)[] {
+    const byId = new Map(words.map(word => [word.id, word]));
+    const bySpanish = new Map<string, Word>();
+    for (const word of words) {
+        const key = spanishKey(word.spanish);
+        if (!bySpanish.has(key)) bySpanish.set(key, word);
+    }
+
+    return notes.map(note =>
+        (note.sourceId ? byId.get(note.sourceId) : undefined)
+        ?? bySpanish.get(spanishKey(note.word.spanish))
+        ?? null
+    );
+}
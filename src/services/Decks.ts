@@ -0,0 +1,180 @@
+/**
+ * Decks - user-made word lists
+ *
+ * A deck picks words from the built-in corpus and can add words of its
+ * own, so a list for a trip or a class can be studied on its own. Decks
+ * only choose which words are studied: stats stay keyed by word id, so a
+ * word's progress is shared by every deck it is in. The built-in corpus
+ * is always available as the "All words" deck.
+ */
+
+import { get, set, update } from 'idb-keyval';
+import wordsData from '../data/words.json';
+import { STORAGE_KEYS } from './Storage';
+import { parseAcceptedAnswers } from '../utils/text';
+import type { Word } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Deck {
+    id: string;
+    name: string;
+    wordIds: string[]; // words from the built-in corpus
+    customWords: Word[]; // words typed in for this deck, stored without answers
+    createdAt: number; // ms timestamp
+}
+
+export type NewWord = Omit<Word, 'id' | 'answers'>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const BUILT_IN_WORDS = (wordsData as Word[]).map(withAnswers);
+
+// Id of the built-in deck holding the whole corpus; it isn't stored
+export const ALL_WORDS_DECK_ID = 'all';
+
+const CUSTOM_WORD_PREFIX = 'custom-';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * A word with the answers its Spanish and English accept
+ */
+function withAnswers(word: Word): Word {
+    return {
+        ...word,
+        answers: {
+            spanish: parseAcceptedAnswers(word.spanish),
+            english: parseAcceptedAnswers(word.english)
+        }
+    };
+}
+
+function createId(prefix: string): string {
+    return `${prefix}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isCustomWord(wordId: string): boolean {
+    return wordId.startsWith(CUSTOM_WORD_PREFIX);
+}
+
+async function updateDecks(change: (decks: Deck[]) => Deck[]): Promise<void> {
+    await update<Deck[]>(STORAGE_KEYS.DECKS, stored => change(stored || []));
+}
+
+async function updateDeck(deckId: string, change: (deck: Deck) => Deck): Promise<void> {
+    await updateDecks(decks => decks.map(deck => deck.id === deckId ? change(deck) : deck));
+}
+
+// ============================================
+// DECKS
+// ============================================
+
+export async function getDecks(): Promise<Deck[]> {
+    try {
+        return (await get<Deck[]>(STORAGE_KEYS.DECKS)) || [];
+    } catch {
+        return [];
+    }
+}
+
+export async function createDeck(name: string): Promise<Deck> {
+    const deck: Deck = {
+        id: createId('deck-'),
+        name: name.trim() || 'New deck',
+        wordIds: [],
+        customWords: [],
+        createdAt: Date.now()
+    };
+    await updateDecks(decks => [...decks, deck]);
+    return deck;
+}
+
+export async function renameDeck(deckId: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    await updateDeck(deckId, deck => ({ ...deck, name: trimmed }));
+}
+
+/**
+ * Delete a deck. Stats of its custom words are kept, like those of any
+ * other word, but nothing studies them any more.
+ */
+export async function deleteDeck(deckId: string): Promise<void> {
+    await updateDecks(decks => decks.filter(deck => deck.id !== deckId));
+    if ((await getActiveDeckId()) === deckId) {
+        await setActiveDeckId(ALL_WORDS_DECK_ID);
+    }
+}
+
+// ============================================
+// DECK WORDS
+// ============================================
+
+export async function addWordsToDeck(deckId: string, wordIds: string[]): Promise<void> {
+    await updateDeck(deckId, deck => ({
+        ...deck,
+        wordIds: [...new Set([...deck.wordIds, ...wordIds])]
+    }));
+}
+
+export async function addCustomWord(deckId: string, fields: NewWord): Promise<Word> {
+    const [word] = await addCustomWords(deckId, [fields]);
+    return word;
+}
+
+/**
+ * Add several typed-in or imported words at once, each with a fresh id
+ */
+export async function addCustomWords(deckId: string, fields: NewWord[]): Promise<Word[]> {
+    const words = fields.map(word => ({ ...word, id: createId(CUSTOM_WORD_PREFIX) }));
+    await updateDeck(deckId, deck => ({ ...deck, customWords: [...deck.customWords, ...words] }));
+    return words.map(withAnswers);
+}
+
+export async function removeWordFromDeck(deckId: string, wordId: string): Promise<void> {
+    await updateDeck(deckId, deck => ({
+        ...deck,
+        wordIds: deck.wordIds.filter(id => id !== wordId),
+        customWords: deck.customWords.filter(word => word.id !== wordId)
+    }));
+}
+
+/**
+ * The words a deck studies, built-in ones first; the whole corpus when
+ * there's no deck
+ */
+export function getDeckWords(deck: Deck | null): Word[] {
+    if (!deck) return BUILT_IN_WORDS;
+    const ids = new Set(deck.wordIds);
+    return [...BUILT_IN_WORDS.filter(word => ids.has(word.id)), ...deck.customWords.map(withAnswers)];
+}
+
+/**
+ * Every word any deck can study, for looking words up by id
+ */
+export function getAllWords(decks: Deck[]): Word[] {
+    return [...BUILT_IN_WORDS, ...decks.flatMap(deck => deck.customWords.map(withAnswers))];
+}
+
+// ============================================
+// ACTIVE DECK
+// ============================================
+
+export async function getActiveDeckId(): Promise<string> {
+    try {
+        return (await get<string>(STORAGE_KEYS.ACTIVE_DECK)) || ALL_WORDS_DECK_ID;
+    } catch {
+        return ALL_WORDS_DECK_ID;
+    }
+}
+
+export async function setActiveDeckId(deckId: string): Promise<void> {
+    await set(STORAGE_KEYS.ACTIVE_DECK, deckId);
+}
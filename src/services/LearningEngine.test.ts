@@ -0,0 +1,129 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clear, set } from 'idb-keyval';
+import {
+    clearUndoHistory,
+    getVacation,
+    getWordStats,
+    recordSession,
+    saveWordStats,
+    toggleHardFlag,
+    undoLastAnswer,
+    updateStatsOnResult,
+    type AnswerContext
+} from './LearningEngine';
+import { clearReviewLog, queryReviewLog } from './ReviewLog';
+import { STORAGE_KEYS } from './Storage';
+import { addDaysToDay } from '../utils/date';
+
+const context: AnswerContext = { mode: 'quiz', answerType: 'multiple_choice', skill: 'recognition' };
+
+beforeEach(async () => {
+    await clear();
+    await clearReviewLog();
+    clearUndoHistory();
+});
+
+describe('concurrent stats updates', () => {
+    it('keeps every answer given to the same word at once', async () => {
+        await Promise.all([
+            updateStatsOnResult('gato', 'correct', context),
+            updateStatsOnResult('gato', 'wrong', context),
+            updateStatsOnResult('gato', 'correct', context),
+            updateStatsOnResult('gato', 'correct', context)
+        ]);
+
+        const stats = (await getWordStats()).gato;
+        expect(stats.seen).toBe(4);
+        expect(stats.correct).toBe(3);
+        expect(stats.wrong).toBe(1);
+        expect(stats.cards.recognition?.seen).toBe(4);
+    });
+
+    it('keeps answers and hard flags given to different words at once', async () => {
+        await Promise.all([
+            updateStatsOnResult('gato', 'correct', context),
+            toggleHardFlag('perro'),
+            updateStatsOnResult('perro', 'wrong', context),
+            updateStatsOnResult('casa', 'correct', context),
+            toggleHardFlag('casa'),
+            updateStatsOnResult('gato', 'correct', context)
+        ]);
+
+        const allStats = await getWordStats();
+        expect(allStats.gato.seen).toBe(2);
+        expect(allStats.perro.wrong).toBe(1);
+        expect(allStats.perro.hardFlag).toBe(true);
+        expect(allStats.casa.correct).toBe(1);
+        expect(allStats.casa.hardFlag).toBe(true);
+    });
+
+    it('applies hard flag toggles on one word in order', async () => {
+        const flags = await Promise.all([
+            toggleHardFlag('gato'),
+            toggleHardFlag('gato'),
+            toggleHardFlag('gato'),
+            updateStatsOnResult('gato', 'correct', context)
+        ]);
+
+        expect(flags.slice(0, 3)).toEqual([true, false, true]);
+        const stats = (await getWordStats()).gato;
+        expect(stats.hardFlag).toBe(true);
+        expect(stats.seen).toBe(1);
+    });
+
+    it('loses no update when writes overlap across ticks', async () => {
+        const pending: Promise<unknown>[] = [];
+        for (let i = 0; i < 5; i++) {
+            pending.push(updateStatsOnResult('gato', 'correct', context));
+            pending.push(updateStatsOnResult(`word-${i}`, 'correct', context));
+            // Let the previous batch start writing before queuing the next
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        await Promise.all(pending);
+
+        const allStats = await getWordStats();
+        expect(allStats.gato.seen).toBe(5);
+        for (let i = 0; i < 5; i++) {
+            expect(allStats[`word-${i}`].seen).toBe(1);
+        }
+    });
+});
+
+describe('undo', () => {
+    it('undoes an answer whose write has not finished yet', async () => {
+        await updateStatsOnResult('gato', 'correct', context);
+        const saving = updateStatsOnResult('gato', 'wrong', context, { question: 2 });
+        const undone = await undoLastAnswer<{ question: number }>();
+        await saving;
+
+        expect(undone?.result).toBe('wrong');
+        expect(undone?.session).toEqual({ question: 2 });
+        const stats = (await getWordStats()).gato;
+        expect(stats.seen).toBe(1);
+        expect(stats.wrong).toBe(0);
+        expect(await queryReviewLog()).toHaveLength(1);
+    });
+});
+
+describe('vacation', () => {
+    it('does not shift cards answered while on vacation', async () => {
+        await updateStatsOnResult('gato', 'correct', context);
+        await updateStatsOnResult('perro', 'correct', context);
+        const before = await getWordStats();
+        const since = addDaysToDay(before.gato.firstSeen!, -10);
+        // perro was last answered before the vacation
+        const perroCard = { ...before.perro.cards.recognition!, lastSeen: since };
+        await saveWordStats({ ...before, perro: { ...before.perro, lastSeen: since, cards: { recognition: perroCard } } });
+        await set(STORAGE_KEYS.VACATION, { since });
+
+        const answered = await updateStatsOnResult('gato', 'correct', context);
+        await recordSession({ wordsStudied: 1, correctAnswers: 1, wrongAnswers: 0, timeSpentMinutes: 1 });
+
+        const after = await getWordStats();
+        expect(await getVacation()).toBeNull();
+        expect(after.gato.cards.recognition?.nextDue).toBe(answered.cards.recognition?.nextDue);
+        expect(after.perro.cards.recognition?.nextDue)
+            .toBe(addDaysToDay(perroCard.nextDue!, 10));
+    });
+});
@@ -9,34 +9,43 @@
  * - Desirable Difficulty
  */
 
-import { get, set } from 'idb-keyval';
+import { get, set, update } from 'idb-keyval';
+import {
+    getScheduler,
+    levelForInterval,
+    nextLearningStep,
+    scaleInterval,
+    unscaleInterval,
+    INITIAL_SCHEDULER_STATE,
+    REVIEW_GRADES,
+    type ReviewGrade,
+    type SchedulerId
+} from './Scheduler';
+import { appendReviewLog, clearReviewLog, deleteReviewLogEntry, queryReviewLog } from './ReviewLog';
+import { getIntervalModifier, type SchedulerParams } from './Optimizer';
+import type { StudyPlan } from './Planner';
+import { STORAGE_KEYS } from './Storage';
+import {
+    createSkillCard,
+    getNextLearningCard,
+    pickSkillToDrill,
+    pickWeakestSkill,
+    summarizeCards,
+    SKILLS,
+    type Skill,
+    type SkillCard,
+    type SkillCards
+} from './SkillCards';
+import { getStudyDay, addDaysToDay, daysBetween, toDay, getWeekStart, getMonth } from '../utils/date';
+import type { AccentStrictness, MistakeType } from '../utils/text';
+import type { Word, WordStats } from '../types';
+
+export type { Word, WordStats };
 
 // ============================================
 // TYPES
 // ============================================
 
-export interface Word {
-    id: string;
-    spanish: string;
-    english: string;
-    category: string;
-    pronunciation?: string;
-    example?: string;
-}
-
-export interface WordStats {
-    wordId: string;
-    seen: number;
-    correct: number;
-    wrong: number;
-    streak: number;
-    level: number; // 0-5
-    lastSeen: string | null; // ISO date string
-    nextDue: string | null; // ISO date string
-    hardFlag: boolean;
-    lastWrongDate: string | null;
-}
-
 export interface LearningSettings {
     dailyGoal: number;
     preferTyped: boolean;
@@ -44,6 +53,18 @@ export interface LearningSettings {
     ttsAccent: 'es-ES' | 'es-MX';
     ttsRate: number;
     enableSTT: boolean;
+    scheduler: SchedulerId;
+    dayStartHour: number; // 0-23, local hour when a new study day begins
+    smoothDueDates: boolean; // spread due dates to avoid review spikes
+    maxNewPerDay: number; // most new words introduced per day
+    targetRetention: number; // share of reviews that should be recalled, 0.7-0.97
+    learningSteps: number[]; // minutes between showings of a new card before it graduates
+    relearningSteps: number[]; // the same after a lapse
+    maxReviewsPerDay: number; // most reviews per day, also the budget when smoothing
+    leechThreshold: number; // lapses before a word is suspended as a leech
+    maxStreakFreezes: number; // most streak freezes that can be banked, 0 disables them
+    studyPlan: StudyPlan | null; // goal-date plan that sets maxNewPerDay, see Planner
+    accentStrictness: AccentStrictness; // how typed and spoken answers with accent mistakes are graded
 }
 
 export interface DailySession {
@@ -55,72 +76,246 @@ export interface DailySession {
     completedGoal: boolean;
 }
 
-export type LearningResult = 'correct' | 'wrong' | 'skipped';
+export type RollupPeriod = 'week' | 'month';
+
+export interface SessionRollup {
+    period: string; // week: YYYY-MM-DD of its Monday, month: YYYY-MM
+    daysStudied: number;
+    wordsStudied: number;
+    correctAnswers: number;
+    wrongAnswers: number;
+    timeSpentMinutes: number;
+    goalsCompleted: number;
+}
+
+type SessionRollups = Record<RollupPeriod, Record<string, SessionRollup>>;
+
+export interface VacationState {
+    since: string; // study day the vacation started
+}
+
+export type LearningResult = 'correct' | 'wrong' | 'skipped' | ReviewGrade;
 export type LearningMode = 'learn' | 'quiz' | 'review';
-export type AnswerType = 'multiple_choice' | 'typed' | 'reveal';
+export type AnswerType = 'multiple_choice' | 'typed' | 'reveal' | 'spoken' | 'match';
+export type StudyMode = LearningMode | GameType;
+
+export interface AnswerContext {
+    mode: StudyMode;
+    answerType: AnswerType;
+    skill: Skill;
+    responseTimeMs?: number;
+    mistakes?: MistakeType[]; // what went wrong in a typed or spoken answer, see classifyMistakes
+}
+
+export interface UndoneAnswer<S = unknown> {
+    wordId: string;
+    result: LearningResult;
+    context: AnswerContext;
+    session: S | undefined; // page counters saved with the answer
+}
 
 // ============================================
 // CONSTANTS
 // ============================================
 
-const STORAGE_KEYS = {
-    WORD_STATS: 'espanish-word-stats',
-    SETTINGS: 'espanish-learning-settings',
-    SESSIONS: 'espanish-sessions',
-    CURRENT_STREAK: 'espanish-streak',
-    LAST_SESSION_DATE: 'espanish-last-session',
-    GAME_SCORES: 'espanish-game-scores'
-};
-
-// SRS intervals by level (in days)
-const SRS_INTERVALS: Record<number, number> = {
-    0: 0,    // Same day
-    1: 1,    // +1 day
-    2: 3,    // +3 days
-    3: 7,    // +7 days
-    4: 14,   // +14 days
-    5: 30    // +30 days
-};
-
 const DEFAULT_SETTINGS: LearningSettings = {
     dailyGoal: 15,
     preferTyped: false,
     showHints: true,
     ttsAccent: 'es-ES',
     ttsRate: 0.95,
-    enableSTT: true
+    enableSTT: true,
+    scheduler: 'classic',
+    dayStartHour: 4,
+    smoothDueDates: true,
+    maxNewPerDay: 10,
+    targetRetention: 0.9,
+    learningSteps: [1, 10],
+    relearningSteps: [10],
+    maxReviewsPerDay: 100,
+    leechThreshold: 8,
+    maxStreakFreezes: 2,
+    studyPlan: null,
+    accentStrictness: 'warn'
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Once a session runs out of cards, learning cards due within this many
+// minutes are shown early rather than waited for
+const LEARN_AHEAD_MINUTES = 20;
+
+// Study pace assumed until sessions have been recorded
+const DEFAULT_MINUTES_PER_WORD = 0.5;
+
+// How many recent sessions the study pace is measured over
+const PACE_SESSIONS = 14;
+
+// How many answers can be undone
+const UNDO_LIMIT = 10;
+
+// A streak freeze is earned for every this many days in a row
+const FREEZE_EARNED_EVERY = 7;
+
+// Answers slower than this (ms) are left out of latency stats; the learner looked away
+const MAX_RESPONSE_TIME_MS = 2 * 60 * 1000;
+
+// How many latencies are kept per word for its median
+const RESPONSE_TIME_SAMPLES = 20;
+
+// A correct answer slower than this (ms) is graded as hard recall.
+// Self-graded and matching answers are not judged on time.
+const SLOW_ANSWER_MS: Record<AnswerType, number | null> = {
+    multiple_choice: 6000,
+    typed: 12000,
+    spoken: 8000,
+    reveal: null,
+    match: null
+};
+
+// How plain right/wrong results map onto recall grades
+const RESULT_GRADES: Record<Exclude<LearningResult, 'skipped'>, ReviewGrade> = {
+    correct: 'good',
+    wrong: 'again',
+    again: 'again',
+    hard: 'hard',
+    good: 'good',
+    easy: 'easy'
 };
 
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
 
-function getTodayString(): string {
-    return new Date().toISOString().split('T')[0];
+/**
+ * Today's study day in local time, honouring the "new day starts at" hour
+ */
+function getTodayString(settings: LearningSettings): string {
+    return getStudyDay(settings.dayStartHour);
 }
 
-function addDays(date: Date, days: number): Date {
-    const result = new Date(date);
-    result.setDate(result.getDate() + days);
-    return result;
+function isToday(dateString: string | null, today: string): boolean {
+    if (!dateString) return false;
+    return toDay(dateString) === today;
 }
 
-function isToday(dateString: string | null): boolean {
-    if (!dateString) return false;
-    return dateString.split('T')[0] === getTodayString();
+function wasWrongRecently(lastWrongDate: string | null, today: string, days: number = 7): boolean {
+    if (!lastWrongDate) return false;
+    return daysBetween(toDay(lastWrongDate), today) <= days;
+}
+
+function createWordStats(wordId: string): WordStats {
+    return {
+        wordId,
+        seen: 0,
+        correct: 0,
+        wrong: 0,
+        ...INITIAL_SCHEDULER_STATE,
+        firstSeen: null,
+        lastSeen: null,
+        nextDue: null,
+        hardFlag: false,
+        lastWrongDate: null,
+        leech: false,
+        suspended: false,
+        note: '',
+        responseTimes: [],
+        medianResponseMs: null,
+        cards: {}
+    };
 }
 
-function isDue(nextDue: string | null): boolean {
-    if (!nextDue) return true; // Never seen = due
-    const today = new Date(getTodayString());
-    const dueDate = new Date(nextDue.split('T')[0]);
-    return dueDate <= today;
+/**
+ * The card to drill for a word: the weakest due card, else the next card
+ * on a learning step, else the weakest unlocked one
+ */
+function getSkillToDrill(stats: WordStats | undefined, today: string, allowSpeaking: boolean): Skill {
+    if (!stats) return 'recognition';
+    return pickSkillToDrill(stats.cards, today, allowSpeaking)
+        ?? getNextLearningCard(stats.cards)?.skill
+        ?? pickWeakestSkill(stats.cards, allowSpeaking);
 }
 
-function wasWrongRecently(lastWrongDate: string | null, days: number = 7): boolean {
-    if (!lastWrongDate) return false;
-    const cutoff = addDays(new Date(), -days);
-    return new Date(lastWrongDate) >= cutoff;
+/**
+ * Apply a grade to a card. Cards on their learning steps come back later
+ * the same day until they graduate to the day-based scheduler; new cards
+ * start on the learning steps and a lapse sends a card to relearning.
+ * Day intervals are scaled by `intervalModifier` for the target retention.
+ * Counters and due days are left to the caller.
+ */
+function scheduleCard(
+    card: SkillCard,
+    grade: ReviewGrade,
+    settings: LearningSettings,
+    intervalModifier: number,
+    now: number
+): SkillCard {
+    const next = { ...card };
+
+    if (card.seen === 0 && settings.learningSteps.length > 0) {
+        next.learningStep = 0;
+        next.relearning = false;
+    }
+
+    if (next.learningStep !== null) {
+        const steps = next.relearning ? settings.relearningSteps : settings.learningSteps;
+        const step = nextLearningStep(next.learningStep, grade, steps);
+
+        if (step !== null) {
+            next.learningStep = step;
+            next.interval = 0;
+            next.dueAt = now + steps[step] * MS_PER_MINUTE;
+            return next;
+        }
+
+        // Graduated: from here on intervals are whole days
+        const { state } = getScheduler(settings.scheduler).schedule(next, grade);
+        const interval = scaleInterval(Math.max(1, state.interval), intervalModifier);
+        return { ...next, ...state, interval, learningStep: null, relearning: false, dueAt: null };
+    }
+
+    const unscaled = { ...next, interval: unscaleInterval(next.interval, intervalModifier) };
+    Object.assign(next, getScheduler(settings.scheduler).schedule(unscaled, grade).state);
+    next.interval = scaleInterval(next.interval, intervalModifier);
+
+    if (grade === 'again' && settings.relearningSteps.length > 0) {
+        next.learningStep = 0;
+        next.relearning = true;
+        next.interval = 0;
+        next.dueAt = now + settings.relearningSteps[0] * MS_PER_MINUTE;
+    }
+    return next;
+}
+
+/**
+ * A word becomes a leech when its lapses reach the threshold,
+ * and again every half-threshold after that
+ */
+function isLeechLapse(lapses: number, threshold: number): boolean {
+    if (lapses < threshold) return false;
+    return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
+/**
+ * The recall grade for an answer. A plain 'correct' that took long
+ * counts as 'hard'; explicit grades are taken as given.
+ */
+function gradeAnswer(result: LearningResult, context: AnswerContext): ReviewGrade | null {
+    if (result === 'skipped') return null;
+    const slowAfter = SLOW_ANSWER_MS[context.answerType];
+    if (result === 'correct' && slowAfter !== null && context.responseTimeMs !== undefined
+        && context.responseTimeMs > slowAfter) {
+        return 'hard';
+    }
+    return RESULT_GRADES[result];
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
 }
 
 function shuffleArray<T>(array: T[]): T[] {
@@ -138,15 +333,22 @@ function shuffleArray<T>(array: T[]): T[] {
 
 export async function getWordStats(): Promise<Record<string, WordStats>> {
     try {
-        const stats = await get(STORAGE_KEYS.WORD_STATS);
-        return stats || {};
+        return (await get(STORAGE_KEYS.WORD_STATS)) || {};
     } catch {
         return {};
     }
 }
 
+/**
+ * Replace all word stats. Queued behind any pending updates.
+ */
 export async function saveWordStats(stats: Record<string, WordStats>): Promise<void> {
-    await set(STORAGE_KEYS.WORD_STATS, stats);
+    await mutateWordStats(allStats => {
+        for (const wordId of Object.keys(allStats)) {
+            delete allStats[wordId];
+        }
+        Object.assign(allStats, stats);
+    });
 }
 
 export async function getSettings(): Promise<LearningSettings> {
@@ -162,6 +364,13 @@ export async function saveSettings(settings: LearningSettings): Promise<void> {
     await set(STORAGE_KEYS.SETTINGS, settings);
 }
 
+/**
+ * Scheduler params fitted to the review history, null until the optimizer has run
+ */
+export async function getSchedulerParams(): Promise<SchedulerParams | null> {
+    return (await get(STORAGE_KEYS.SCHEDULER_PARAMS)) || null;
+}
+
 export async function getStreak(): Promise<number> {
     try {
         const streak = await get(STORAGE_KEYS.CURRENT_STREAK);
@@ -180,100 +389,594 @@ export async function getSessions(): Promise<DailySession[]> {
     }
 }
 
+/**
+ * Daily sessions between two study days (inclusive), oldest first
+ */
+export async function getSessionsInRange(from: string, to: string): Promise<DailySession[]> {
+    const sessions = await getSessions();
+    return sessions
+        .filter(s => s.date >= from && s.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Weekly or monthly totals for the periods containing `from` through `to`, oldest first
+ */
+export async function getSessionRollups(
+    period: RollupPeriod,
+    from?: string,
+    to?: string
+): Promise<SessionRollup[]> {
+    const rollups = await getAllRollups();
+    const periodOf = period === 'week' ? getWeekStart : getMonth;
+
+    return Object.values(rollups[period])
+        .filter(r => (!from || r.period >= periodOf(from)) && (!to || r.period <= periodOf(to)))
+        .sort((a, b) => a.period.localeCompare(b.period));
+}
+
+async function getAllRollups(): Promise<SessionRollups> {
+    try {
+        const rollups: SessionRollups | undefined = await get(STORAGE_KEYS.SESSION_ROLLUPS);
+        // History saved before rollups existed is rolled up once
+        return rollups || buildRollups(await getSessions());
+    } catch {
+        return { week: {}, month: {} };
+    }
+}
+
+// ============================================
+// WRITE QUEUE
+// ============================================
+
+/**
+ * A synchronous change to the stats map. It runs inside an IndexedDB
+ * transaction, so it must not await anything.
+ */
+type StatsMutation<T> = (allStats: Record<string, WordStats>) => T;
+
+interface PendingMutation {
+    mutate: StatsMutation<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+let pendingMutations: PendingMutation[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lastFlush: Promise<void> = Promise.resolve();
+
+/**
+ * Apply every mutation queued during the last tick in one readwrite
+ * transaction. IndexedDB runs overlapping readwrite transactions on a store
+ * one at a time, across tabs too, so the read and the write can't interleave
+ * with another writer and no update is lost.
+ */
+async function flushMutations(): Promise<void> {
+    const batch = pendingMutations;
+    pendingMutations = [];
+    flushTimer = null;
+
+    const results: { value?: unknown; error?: unknown }[] = [];
+    try {
+        await update<Record<string, WordStats>>(STORAGE_KEYS.WORD_STATS, stored => {
+            const allStats = stored || {};
+            for (const { mutate } of batch) {
+                try {
+                    results.push({ value: mutate(allStats) });
+                } catch (error) {
+                    results.push({ error });
+                }
+            }
+            return allStats;
+        });
+    } catch (error) {
+        batch.forEach(pending => pending.reject(error));
+        return;
+    }
+
+    batch.forEach((pending, i) => {
+        if ('error' in results[i]) {
+            pending.reject(results[i].error);
+        } else {
+            pending.resolve(results[i].value);
+        }
+    });
+}
+
+/**
+ * Queue a change to the stats map. Changes made in the same tick are written
+ * together, in the order they were queued. Resolves once the change is stored.
+ */
+function mutateWordStats<T>(mutate: StatsMutation<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        pendingMutations.push({ mutate, resolve: resolve as (value: unknown) => void, reject });
+        if (!flushTimer) {
+            flushTimer = setTimeout(() => {
+                lastFlush = lastFlush.then(flushMutations);
+            }, 0);
+        }
+    });
+}
+
 // ============================================
 // SRS ALGORITHM
 // ============================================
 
 /**
- * Compute the next due date based on level
+ * Compute the next due date for an interval in days, counted from a study day
  */
-export function computeNextDue(level: number): string {
-    const days = SRS_INTERVALS[Math.min(level, 5)] || 0;
-    const nextDate = addDays(new Date(), days);
-    return nextDate.toISOString().split('T')[0];
+export function computeNextDue(intervalDays: number, today: string): string {
+    return addDaysToDay(today, Math.max(0, Math.round(intervalDays)));
 }
 
 /**
- * Update word stats based on learning result
+ * Count how many practised cards fall due on each study day
+ */
+function getDueLoad(
+    allStats: Record<string, WordStats>,
+    exclude?: { wordId: string; skill: Skill }
+): Record<string, number> {
+    const load: Record<string, number> = {};
+    for (const stats of Object.values(allStats)) {
+        if (stats.suspended) continue;
+        for (const skill of SKILLS) {
+            const card = stats.cards[skill];
+            if (!card || card.seen === 0 || !card.nextDue) continue;
+            if (stats.wordId === exclude?.wordId && skill === exclude.skill) continue;
+            const day = toDay(card.nextDue);
+            load[day] = (load[day] || 0) + 1;
+        }
+    }
+    return load;
+}
+
+/**
+ * Nudge an interval by a few days towards the least loaded day.
+ * Days already at the review budget are avoided when possible.
+ */
+function smoothInterval(
+    interval: number,
+    today: string,
+    load: Record<string, number>,
+    maxReviewsPerDay: number
+): number {
+    if (interval < 2) return interval;
+
+    const fuzz = Math.max(1, Math.round(interval * 0.15));
+    const candidates: number[] = [];
+    for (let days = Math.max(1, interval - fuzz); days <= interval + fuzz; days++) {
+        candidates.push(days);
+    }
+
+    const loadOn = (days: number) => load[computeNextDue(days, today)] || 0;
+    const underBudget = candidates.filter(days => loadOn(days) < maxReviewsPerDay);
+    const pool = underBudget.length > 0 ? underBudget : candidates;
+    const lowest = Math.min(...pool.map(loadOn));
+    const best = pool.filter(days => loadOn(days) === lowest);
+
+    return best[Math.floor(Math.random() * best.length)];
+}
+
+/**
+ * Update word stats based on learning result.
+ * Only the card for the practised skill is rescheduled; scheduling is
+ * delegated to the scheduler selected in settings. A correct answer that
+ * took longer than SLOW_ANSWER_MS is scheduled as hard recall.
+ * Safe to call without awaiting: updates are queued and none are lost, and
+ * the answer can be undone as soon as this is called.
+ * `session` is whatever the page needs to restore its counters if the answer is undone.
  */
 export async function updateStatsOnResult(
     wordId: string,
-    result: LearningResult
+    result: LearningResult,
+    context: AnswerContext,
+    session?: unknown
 ): Promise<WordStats> {
-    const allStats = await getWordStats();
-    const today = getTodayString();
-
-    // Get or create stats for this word
-    let stats = allStats[wordId] || {
+    // On the undo stack before the first await, so an early undo finds this answer
+    let settle!: (recorded: RecordedAnswer | null) => void;
+    const entry: UndoEntry = {
         wordId,
-        seen: 0,
-        correct: 0,
-        wrong: 0,
-        streak: 0,
-        level: 0,
-        lastSeen: null,
-        nextDue: null,
-        hardFlag: false,
-        lastWrongDate: null
+        result,
+        context,
+        session,
+        recorded: new Promise(resolve => { settle = resolve; })
     };
+    pushUndoEntry(entry);
+
+    let recorded: RecordedAnswer | null = null;
+    try {
+        // End a vacation before scheduling, or this answer would be shifted with the rest
+        await endVacation();
+        const [settings, params] = await Promise.all([getSettings(), getSchedulerParams()]);
+        const intervalModifier = getIntervalModifier(settings.targetRetention, params);
+        const today = getTodayString(settings);
+        const now = Date.now();
+        const { skill } = context;
+        const grade = gradeAnswer(result, context);
+        const { responseTimeMs } = context;
+
+        const { stats, previous, previousInterval, newInterval } = await mutateWordStats(allStats => {
+            // Get or create stats for this word and the card being practised
+            const previous = allStats[wordId];
+            const stats = { ...(previous || createWordStats(wordId)) };
+            let card = { ...createSkillCard(), ...stats.cards[skill] };
+            const previousInterval = card.interval;
+            const previousLapses = card.lapses;
+
+            if (grade) {
+                card = scheduleCard(card, grade, settings, intervalModifier, now);
+            }
+
+            if (stats.seen === 0) {
+                stats.firstSeen = today;
+            }
+            stats.seen += 1;
+            stats.lastSeen = today;
+            card.seen += 1;
+            card.lastSeen = today;
+
+            if (responseTimeMs !== undefined && responseTimeMs <= MAX_RESPONSE_TIME_MS) {
+                stats.responseTimes = [...stats.responseTimes, responseTimeMs].slice(-RESPONSE_TIME_SAMPLES);
+                stats.medianResponseMs = median(stats.responseTimes);
+            }
 
-    stats.seen += 1;
-    stats.lastSeen = today;
+            if (grade) {
+                if (grade === 'again') {
+                    stats.wrong += 1;
+                    stats.lastWrongDate = today;
+                    card.wrong += 1;
+                } else {
+                    stats.correct += 1;
+                    card.correct += 1;
+                }
+
+                if (settings.smoothDueDates && card.learningStep === null) {
+                    const load = getDueLoad(allStats, { wordId, skill });
+                    card.interval = smoothInterval(card.interval, today, load, settings.maxReviewsPerDay);
+                }
+
+                // Suspend words that keep failing
+                if (card.lapses > previousLapses && isLeechLapse(card.lapses, settings.leechThreshold)) {
+                    stats.leech = true;
+                    stats.suspended = true;
+                }
+            }
 
-    if (result === 'correct') {
-        stats.correct += 1;
-        stats.streak += 1;
+            // Calculate next due date
+            card.nextDue = computeNextDue(card.interval, today);
 
-        // Level up if streak >= 2
-        if (stats.streak >= 2 && stats.level < 5) {
-            stats.level += 1;
+            stats.cards = { ...stats.cards, [skill]: card };
+            Object.assign(stats, summarizeCards(stats.cards));
+
+            allStats[wordId] = stats;
+            return { stats, previous, previousInterval, newInterval: card.interval };
+        });
+        recorded = { previous, logEntryId: null };
+
+        const logged = await appendReviewLog({
+            wordId,
+            mode: context.mode,
+            answerType: context.answerType,
+            skill,
+            result,
+            grade,
+            responseTimeMs: responseTimeMs ?? null,
+            previousInterval,
+            newInterval,
+            intervalModifier,
+            ...(context.mistakes?.length ? { mistakes: context.mistakes } : {})
+        });
+
+        settle({ previous, logEntryId: logged.id });
+        return stats;
+    } catch (error) {
+        if (recorded) {
+            // The stats were saved but not the log entry: undo can still restore them
+            settle(recorded);
+        } else {
+            removeUndoEntry(entry);
+            settle(null);
         }
-    } else if (result === 'wrong') {
-        stats.wrong += 1;
-        stats.streak = 0;
-        stats.lastWrongDate = today;
-
-        // Level down (min 0)
-        if (stats.level > 0) {
-            stats.level -= 1;
+        throw error;
+    }
+}
+
+// ============================================
+// UNDO
+// ============================================
+
+interface RecordedAnswer {
+    previous: WordStats | undefined; // stats before the answer, undefined if the word was new
+    logEntryId: string | null; // null if the review log write failed
+}
+
+interface UndoEntry extends UndoneAnswer {
+    recorded: Promise<RecordedAnswer | null>; // settles once the answer is stored, null if it never was
+}
+
+// Kept in memory only: undo is for the answers of the current visit
+const undoStack: UndoEntry[] = [];
+
+function pushUndoEntry(entry: UndoEntry): void {
+    undoStack.push(entry);
+    if (undoStack.length > UNDO_LIMIT) {
+        undoStack.shift();
+    }
+}
+
+function removeUndoEntry(entry: UndoEntry): void {
+    const index = undoStack.indexOf(entry);
+    if (index !== -1) undoStack.splice(index, 1);
+}
+
+export function canUndo(): boolean {
+    return undoStack.length > 0;
+}
+
+/**
+ * Forget the undo history, e.g. when a new screen starts so it can't
+ * undo answers given elsewhere
+ */
+export function clearUndoHistory(): void {
+    undoStack.length = 0;
+}
+
+/**
+ * Undo the most recent answer: the word's stats go back to how they were
+ * and its review log entry is removed. Returns the answer, with the page's
+ * session counters, or null when there is nothing to undo.
+ */
+export async function undoLastAnswer<S = unknown>(): Promise<UndoneAnswer<S> | null> {
+    const entry = undoStack.pop();
+    if (!entry) return null;
+
+    // An answer still being written is undone once it is stored
+    const recorded = await entry.recorded;
+    if (recorded) {
+        await mutateWordStats(allStats => {
+            if (recorded.previous) {
+                allStats[entry.wordId] = recorded.previous;
+            } else {
+                delete allStats[entry.wordId];
+            }
+        });
+        if (recorded.logEntryId) {
+            await deleteReviewLogEntry(recorded.logEntryId);
         }
     }
 
-    // Calculate next due date
-    stats.nextDue = computeNextDue(stats.level);
+    return {
+        wordId: entry.wordId,
+        result: entry.result,
+        context: entry.context,
+        session: entry.session as S | undefined
+    };
+}
 
-    // Save updated stats
-    allStats[wordId] = stats;
-    await saveWordStats(allStats);
+/**
+ * Preview the interval (in days) each grade would give one of a word's cards,
+ * without recording an answer
+ */
+export async function getGradePreview(wordId: string, skill: Skill): Promise<Record<ReviewGrade, number>> {
+    const [allStats, settings, params] = await Promise.all([getWordStats(), getSettings(), getSchedulerParams()]);
+    const card = { ...createSkillCard(), ...allStats[wordId]?.cards[skill] };
+    const intervalModifier = getIntervalModifier(settings.targetRetention, params);
+    const now = Date.now();
+
+    const preview = {} as Record<ReviewGrade, number>;
+    for (const grade of REVIEW_GRADES) {
+        const next = scheduleCard(card, grade, settings, intervalModifier, now);
+        preview[grade] = next.dueAt !== null ? (next.dueAt - now) / MS_PER_DAY : next.interval;
+    }
+    return preview;
+}
 
-    return stats;
+export interface ForecastDay {
+    date: string;
+    due: number;
+}
+
+/**
+ * Predicted number of reviews due on each of the next `days` study days,
+ * counting each practised card. Overdue cards are counted on today.
+ */
+export async function getReviewForecast(words: Word[], days: number = 14): Promise<ForecastDay[]> {
+    const [allStats, settings] = await Promise.all([getWordStats(), getSettings()]);
+    const today = getTodayString(settings);
+
+    const forecast: ForecastDay[] = Array.from({ length: days }, (_, i) => ({
+        date: addDaysToDay(today, i),
+        due: 0
+    }));
+
+    for (const word of words) {
+        const stats = allStats[word.id];
+        if (!stats || stats.suspended) continue;
+
+        for (const card of Object.values(stats.cards)) {
+            if (!card || card.seen === 0 || !card.nextDue) continue;
+
+            const offset = Math.max(0, daysBetween(today, toDay(card.nextDue)));
+            if (offset < days) {
+                forecast[offset].due += 1;
+            }
+        }
+    }
+
+    return forecast;
 }
 
 /**
  * Toggle hard flag for a word
  */
 export async function toggleHardFlag(wordId: string): Promise<boolean> {
+    return mutateWordStats(allStats => {
+        const stats = allStats[wordId] || createWordStats(wordId);
+        allStats[wordId] = { ...stats, hardFlag: !stats.hardFlag };
+        return allStats[wordId].hardFlag;
+    });
+}
+
+// ============================================
+// SCHEDULER OPTIMIZER
+// ============================================
+
+/**
+ * Fit the scheduler to the review history in a Web Worker and keep the
+ * result. Returns null, keeping any earlier fit, when there are too few
+ * reviews to go on.
+ */
+export async function optimizeScheduler(): Promise<SchedulerParams | null> {
+    const entries = await queryReviewLog();
+    const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+
+    try {
+        const params = await new Promise<SchedulerParams | null>((resolve, reject) => {
+            worker.onmessage = (event: MessageEvent<SchedulerParams | null>) => resolve(event.data);
+            worker.onerror = (event) => reject(new Error(event.message));
+            worker.postMessage(entries);
+        });
+        if (params) {
+            await set(STORAGE_KEYS.SCHEDULER_PARAMS, params);
+        }
+        return params;
+    } finally {
+        worker.terminate();
+    }
+}
+
+// ============================================
+// LEECHES
+// ============================================
+
+export interface LeechEntry {
+    word: Word;
+    stats: WordStats;
+}
+
+/**
+ * Get words flagged as leeches, most lapses first
+ */
+export async function getLeeches(words: Word[]): Promise<LeechEntry[]> {
     const allStats = await getWordStats();
+    return words
+        .filter(word => allStats[word.id]?.leech)
+        .map(word => ({ word, stats: allStats[word.id] }))
+        .sort((a, b) => b.stats.lapses - a.stats.lapses);
+}
 
-    if (!allStats[wordId]) {
-        allStats[wordId] = {
-            wordId,
-            seen: 0,
-            correct: 0,
-            wrong: 0,
-            streak: 0,
-            level: 0,
-            lastSeen: null,
-            nextDue: null,
-            hardFlag: true,
-            lastWrongDate: null
-        };
-    } else {
-        allStats[wordId].hardFlag = !allStats[wordId].hardFlag;
+/**
+ * Suspend or unsuspend a word. Unsuspending also clears the leech flag
+ * and makes all of its cards due today.
+ */
+export async function setSuspended(wordId: string, suspended: boolean): Promise<WordStats> {
+    const today = getTodayString(await getSettings());
+
+    return mutateWordStats(allStats => {
+        const stats = { ...(allStats[wordId] || createWordStats(wordId)), suspended };
+        if (!suspended) {
+            stats.leech = false;
+            stats.nextDue = today;
+            stats.cards = Object.fromEntries(
+                Object.entries(stats.cards).map(([skill, card]) => [skill, { ...card, nextDue: today }])
+            );
+        }
+
+        allStats[wordId] = stats;
+        return stats;
+    });
+}
+
+/**
+ * Save a personal note or mnemonic for a word
+ */
+export async function setWordNote(wordId: string, note: string): Promise<WordStats> {
+    return mutateWordStats(allStats => {
+        const stats = { ...(allStats[wordId] || createWordStats(wordId)), note: note.trim() };
+        allStats[wordId] = stats;
+        return stats;
+    });
+}
+
+export interface ImportedSchedule {
+    wordId: string;
+    interval: number; // days
+    nextDue: string | null; // study day, null to count the interval from today
+}
+
+/**
+ * Start imported words part-way through, as if their recognition card had
+ * already been reviewed up to the given interval elsewhere. Words already
+ * practised here keep their history; only their recognition card's
+ * interval and due date are replaced. Intervals under a day are left alone.
+ * Returns how many words were scheduled.
+ */
+export async function importSchedules(schedules: ImportedSchedule[]): Promise<number> {
+    const today = getTodayString(await getSettings());
+
+    return mutateWordStats(allStats => {
+        let imported = 0;
+        for (const { wordId, interval, nextDue } of schedules) {
+            const days = Math.round(interval);
+            if (days < 1) continue;
+
+            const previous = allStats[wordId] || createWordStats(wordId);
+            const current = previous.cards.recognition;
+            const schedule = {
+                level: levelForInterval(days),
+                interval: days,
+                nextDue: nextDue ? toDay(nextDue) : computeNextDue(days, today)
+            };
+            const card: SkillCard = current?.seen
+                ? { ...current, ...schedule, learningStep: null, relearning: false, dueAt: null }
+                : { ...createSkillCard(), ...schedule, streak: 1, reps: 1, seen: 1, correct: 1 };
+            // firstSeen and lastSeen stay as they were so the words don't
+            // count towards today's new or review limits
+            const stats: WordStats = {
+                ...previous,
+                seen: previous.seen || 1,
+                correct: previous.seen ? previous.correct : 1,
+                cards: { ...previous.cards, recognition: card }
+            };
+            Object.assign(stats, summarizeCards(stats.cards));
+
+            allStats[wordId] = stats;
+            imported += 1;
+        }
+        return imported;
+    });
+}
+
+// ============================================
+// MISTAKES
+// ============================================
+
+export interface MistakeSummary {
+    type: MistakeType;
+    count: number;
+    wordIds: string[]; // words with this mistake, most recent first
+}
+
+// How far back "My common mistakes" looks
+const MISTAKE_WINDOW_DAYS = 90;
+
+/**
+ * Kinds of mistake in recent typed and spoken answers, most frequent first
+ */
+export async function getCommonMistakes(days: number = MISTAKE_WINDOW_DAYS): Promise<MistakeSummary[]> {
+    const entries = await queryReviewLog({ from: Date.now() - days * MS_PER_DAY });
+    const summaries = new Map<MistakeType, MistakeSummary>();
+
+    for (const entry of entries.reverse()) {
+        for (const type of entry.mistakes || []) {
+            const summary = summaries.get(type) || { type, count: 0, wordIds: [] };
+            summary.count += 1;
+            if (!summary.wordIds.includes(entry.wordId)) summary.wordIds.push(entry.wordId);
+            summaries.set(type, summary);
+        }
     }
 
-    await saveWordStats(allStats);
-    return allStats[wordId].hardFlag;
+    return [...summaries.values()].sort((a, b) => b.count - a.count);
 }
 
 // ============================================
@@ -281,107 +984,208 @@ export async function toggleHardFlag(wordId: string): Promise<boolean> {
 // ============================================
 
 export interface DailyQueue {
-    dueWords: Word[];
+    dueWords: Word[]; // most overdue first
     recentlyWrong: Word[];
     hardWords: Word[];
     newWords: Word[];
-    mixedReview: Word[];
+    learning: LearningCard[]; // on a learning step that comes due later today
+    skills: Record<string, Skill>; // card to drill for each queued word
     total: number;
+    backlog: number; // due words over today's review limit, carried over to the next days
     estimatedMinutes: number;
 }
 
 /**
- * Build the daily learning queue with priority order:
- * 1. Due words (nextDue <= today)
+ * How overdue a card is relative to its interval: a week late on a
+ * 3-day interval is more urgent than a week late on a 60-day one.
+ * Unlocked cards that were never practised are not overdue.
+ */
+function getOverdueness(stats: WordStats, skill: Skill, today: string): number {
+    const card = stats.cards[skill];
+    if (!card?.nextDue) return 0;
+    return daysBetween(toDay(card.nextDue), today) / Math.max(1, card.interval);
+}
+
+/**
+ * Average minutes per word over recent sessions, so estimates follow
+ * the learner's own pace
+ */
+async function getMinutesPerWord(): Promise<number> {
+    const sessions = (await getSessions()).slice(-PACE_SESSIONS);
+    const wordsStudied = sessions.reduce((sum, s) => sum + s.wordsStudied, 0);
+    const minutes = sessions.reduce((sum, s) => sum + s.timeSpentMinutes, 0);
+    return wordsStudied > 0 ? minutes / wordsStudied : DEFAULT_MINUTES_PER_WORD;
+}
+
+/**
+ * Build the daily learning queue. Reviews and new words have separate
+ * daily limits, and what was already studied today counts against them.
+ * Reviews fill their limit in priority order:
+ * 1. Due words (any unlocked card due today), most overdue first
  * 2. Recently wrong (last 7 days)
  * 3. Hard words
- * 4. New words to meet daily goal
- * 5. Mixed review (interleaving)
+ * Due words that don't fit are the backlog; they stay due and, being
+ * more overdue tomorrow, are taken first on the following days.
+ * Pages about to study the queue pass `forStudy`: studying ends a vacation,
+ * and the queue is then built from the shifted due dates.
  */
-export async function buildDailyQueue(
-    words: Word[],
-    dailyGoal: number = 15
-): Promise<DailyQueue> {
-    const allStats = await getWordStats();
+export async function buildDailyQueue(words: Word[], { forStudy = false } = {}): Promise<DailyQueue> {
+    if (forStudy) {
+        await endVacation();
+    }
+
+    const [allStats, settings, minutesPerWord] = await Promise.all([getWordStats(), getSettings(), getMinutesPerWord()]);
+    const today = getTodayString(settings);
+    const now = Date.now();
 
     const dueWords: Word[] = [];
     const recentlyWrong: Word[] = [];
     const hardWords: Word[] = [];
     const newWords: Word[] = [];
-    const seenWords: Word[] = [];
+    const learning: LearningCard[] = [];
+    const skills: Record<string, Skill> = {};
+    const overdueness: Record<string, number> = {};
+    let reviewedToday = 0;
+    let introducedToday = 0;
 
     for (const word of words) {
         const stats = allStats[word.id];
 
+        if (stats?.firstSeen === today) {
+            introducedToday += 1;
+        } else if (stats && isToday(stats.lastSeen, today)) {
+            reviewedToday += 1;
+        }
+
+        if (stats?.suspended) {
+            // Suspended words stay out of every bucket
+            continue;
+        }
+
         if (!stats || stats.seen === 0) {
             // Never seen = new word
             newWords.push(word);
+            skills[word.id] = 'recognition';
         } else {
-            seenWords.push(word);
+            // Each word goes in its highest-priority bucket only
+            skills[word.id] = getSkillToDrill(stats, today, settings.enableSTT);
 
-            // Check if due
-            if (isDue(stats.nextDue)) {
-                dueWords.push(word);
-            }
+            const learningCard = getNextLearningCard(stats.cards);
 
-            // Check if recently wrong
-            if (wasWrongRecently(stats.lastWrongDate)) {
+            if (pickSkillToDrill(stats.cards, today, settings.enableSTT, now)) {
+                dueWords.push(word);
+                overdueness[word.id] = getOverdueness(stats, skills[word.id], today);
+            } else if (learningCard) {
+                learning.push({ word, dueAt: learningCard.dueAt });
+            } else if (wasWrongRecently(stats.lastWrongDate, today)) {
                 recentlyWrong.push(word);
-            }
-
-            // Check if marked hard
-            if (stats.hardFlag) {
+            } else if (stats.hardFlag) {
                 hardWords.push(word);
             }
         }
     }
 
-    // Calculate how many new words to add
-    const priorityCount = dueWords.length + recentlyWrong.length + hardWords.length;
-    const newWordsToAdd = Math.max(0, dailyGoal - priorityCount);
-    const selectedNewWords = shuffleArray(newWords).slice(0, newWordsToAdd);
+    // Fill the review limit in priority order
+    let reviewsLeft = Math.max(0, settings.maxReviewsPerDay - reviewedToday);
+    const mostOverdue = shuffleArray(dueWords).sort((a, b) => overdueness[b.id] - overdueness[a.id]);
+    const selectedDue = mostOverdue.slice(0, reviewsLeft);
+    reviewsLeft -= selectedDue.length;
+    const selectedWrong = shuffleArray(recentlyWrong).slice(0, reviewsLeft);
+    reviewsLeft -= selectedWrong.length;
+    const selectedHard = shuffleArray(hardWords).slice(0, reviewsLeft);
 
-    // Create mixed review from remaining seen words (interleaving)
-    const remainingForMix = dailyGoal - priorityCount - selectedNewWords.length;
-    const mixedReview = shuffleArray(seenWords.filter(w =>
-        !dueWords.includes(w) &&
-        !recentlyWrong.includes(w) &&
-        !hardWords.includes(w)
-    )).slice(0, Math.max(0, remainingForMix));
+    // New words from the study plan's categories come first
+    const planCategories = settings.studyPlan?.categories ?? [];
+    const inPlan = (word: Word) => planCategories.length === 0 || planCategories.includes(word.category) ? 0 : 1;
+    const newWordsLeft = Math.max(0, settings.maxNewPerDay - introducedToday);
+    const selectedNewWords = shuffleArray(newWords).sort((a, b) => inPlan(a) - inPlan(b)).slice(0, newWordsLeft);
 
-    const total = dueWords.length + recentlyWrong.length + hardWords.length + selectedNewWords.length + mixedReview.length;
+    const total = selectedDue.length + selectedWrong.length + selectedHard.length + selectedNewWords.length;
 
     return {
-        dueWords: shuffleArray(dueWords),
-        recentlyWrong: shuffleArray(recentlyWrong),
-        hardWords: shuffleArray(hardWords),
+        dueWords: selectedDue,
+        recentlyWrong: selectedWrong,
+        hardWords: selectedHard,
         newWords: selectedNewWords,
-        mixedReview,
+        learning: learning.sort((a, b) => a.dueAt - b.dueAt),
+        skills,
         total,
-        estimatedMinutes: Math.ceil(total * 0.5) // ~30 seconds per word
+        backlog: dueWords.length - selectedDue.length,
+        estimatedMinutes: Math.ceil(total * minutesPerWord)
     };
 }
 
+export interface LearningCard {
+    word: Word;
+    dueAt: number; // ms timestamp its learning step comes due
+}
+
+// Where a study session is: the cards in order, the current one, and
+// the learning cards waiting to come back
+export interface SessionOrder {
+    words: Word[];
+    index: number;
+    learning: LearningCard[];
+}
+
 /**
- * Get a flat, prioritized queue for a learning session
+ * Get a flat, prioritized queue for a learning session, plus the
+ * learning cards that will come due during it
  */
-export async function getDailySessionQueue(
-    words: Word[],
-    dailyGoal: number = 15
-): Promise<Word[]> {
-    const queue = await buildDailyQueue(words, dailyGoal);
+export async function getDailySessionQueue(words: Word[]): Promise<{ words: Word[]; learning: LearningCard[] }> {
+    const queue = await buildDailyQueue(words, { forStudy: true });
 
-    // Priority order: due > recently wrong > hard > new > mixed
+    // Priority order: due > recently wrong > hard > new
     const prioritized = [
         ...queue.dueWords,
-        ...queue.recentlyWrong.filter(w => !queue.dueWords.includes(w)),
-        ...queue.hardWords.filter(w => !queue.dueWords.includes(w) && !queue.recentlyWrong.includes(w)),
-        ...queue.newWords,
-        ...queue.mixedReview
+        ...queue.recentlyWrong,
+        ...queue.hardWords,
+        ...queue.newWords
     ];
 
     // Interleave by category for variety
-    return interleaveByCategory(prioritized);
+    return { words: interleaveByCategory(prioritized), learning: queue.learning };
+}
+
+/**
+ * After an answer, put the word back among the session's learning cards
+ * if its card is still on a learning step
+ */
+export function requeueLearningCard(learning: LearningCard[], word: Word, stats: WordStats): LearningCard[] {
+    const rest = learning.filter(card => card.word.id !== word.id);
+    const next = getNextLearningCard(stats.cards);
+    return next ? [...rest, { word, dueAt: next.dueAt }] : rest;
+}
+
+/**
+ * Move a session on to its next card. A learning card that has come due
+ * is slotted in next; once the rest is done, learning cards due within
+ * LEARN_AHEAD_MINUTES are brought forward. Returns null when the session is over.
+ */
+export function advanceSession(order: SessionOrder, now: number = Date.now()): SessionOrder | null {
+    const learning = [...order.learning].sort((a, b) => a.dueAt - b.dueAt);
+    const nextIndex = order.index + 1;
+    const remaining = order.words.length - nextIndex;
+    const cutoff = remaining > 0 ? now : now + LEARN_AHEAD_MINUTES * MS_PER_MINUTE;
+
+    if (learning.length > 0 && learning[0].dueAt <= cutoff) {
+        const [card, ...rest] = learning;
+        const words = [...order.words.slice(0, nextIndex), card.word, ...order.words.slice(nextIndex)];
+        return { words, index: nextIndex, learning: rest };
+    }
+
+    return remaining > 0 ? { ...order, index: nextIndex, learning } : null;
+}
+
+/**
+ * The card to drill for each of the given words, for sessions built outside the daily queue
+ */
+export async function getSkillsToDrill(words: Word[]): Promise<Record<string, Skill>> {
+    const [allStats, settings] = await Promise.all([getWordStats(), getSettings()]);
+    const today = getTodayString(settings);
+    return Object.fromEntries(
+        words.map(word => [word.id, getSkillToDrill(allStats[word.id], today, settings.enableSTT)])
+    );
 }
 
 /**
@@ -461,11 +1265,13 @@ export interface ProgressSummary {
     accuracy: number;
     byLevel: Record<number, number>;
     byCategory: Record<string, { total: number; learned: number }>;
+    bySkill: Record<Skill, { practised: number; mastered: number }>;
 }
 
 export async function getProgressSummary(words: Word[]): Promise<ProgressSummary> {
-    const allStats = await getWordStats();
+    const [allStats, settings] = await Promise.all([getWordStats(), getSettings()]);
     const streak = await getStreak();
+    const today = getTodayString(settings);
 
     let wordsLearned = 0;
     let wordsMastered = 0;
@@ -477,6 +1283,9 @@ export async function getProgressSummary(words: Word[]): Promise<ProgressSummary
 
     const byLevel: Record<number, number> = { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
     const byCategory: Record<string, { total: number; learned: number }> = {};
+    const bySkill = Object.fromEntries(
+        SKILLS.map(skill => [skill, { practised: 0, mastered: 0 }])
+    ) as ProgressSummary['bySkill'];
 
     for (const word of words) {
         const stats = allStats[word.id];
@@ -507,9 +1316,16 @@ export async function getProgressSummary(words: Word[]): Promise<ProgressSummary
                 wordsInProgress += 1;
             }
 
-            if (isDue(stats.nextDue)) {
+            if (!stats.suspended && pickSkillToDrill(stats.cards, today, settings.enableSTT)) {
                 dueToday += 1;
             }
+
+            for (const skill of SKILLS) {
+                const card = stats.cards[skill];
+                if (!card || card.seen === 0) continue;
+                bySkill[skill].practised += 1;
+                if (card.level >= 4) bySkill[skill].mastered += 1;
+            }
         }
     }
 
@@ -523,52 +1339,221 @@ export async function getProgressSummary(words: Word[]): Promise<ProgressSummary
         streak,
         accuracy: totalSeen > 0 ? Math.round((totalCorrect / totalSeen) * 100) : 0,
         byLevel,
-        byCategory
+        byCategory,
+        bySkill
     };
 }
 
 /**
- * Update streak based on daily activity
+ * Update streak based on daily activity.
+ * Missed days are covered by streak freezes while any are left.
+ * Studying during a vacation ends it.
  */
 export async function updateStreak(): Promise<number> {
-    const lastSession = await get(STORAGE_KEYS.LAST_SESSION_DATE);
-    const today = getTodayString();
+    if (await getVacation()) {
+        await endVacation();
+    }
+
+    const lastSession: string | null = (await get(STORAGE_KEYS.LAST_SESSION_DATE)) || null;
+    const settings = await getSettings();
+    const today = getTodayString(settings);
     let currentStreak = await getStreak();
+    let freezes = await getStreakFreezes();
 
-    if (lastSession === today) {
+    if (isToday(lastSession, today)) {
         // Already updated today
         return currentStreak;
     }
 
-    const yesterday = addDays(new Date(), -1).toISOString().split('T')[0];
+    const missedDays = lastSession ? daysBetween(toDay(lastSession), today) - 1 : Infinity;
 
-    if (lastSession === yesterday) {
+    if (missedDays <= 0) {
         // Continuing streak
         currentStreak += 1;
-    } else if (lastSession !== today) {
+    } else if (missedDays <= freezes) {
+        // Missed days are frozen
+        freezes -= missedDays;
+        currentStreak += 1;
+    } else {
         // Streak broken
         currentStreak = 1;
     }
 
+    if (currentStreak % FREEZE_EARNED_EVERY === 0) {
+        freezes = Math.min(settings.maxStreakFreezes, freezes + 1);
+    }
+
     await set(STORAGE_KEYS.CURRENT_STREAK, currentStreak);
     await set(STORAGE_KEYS.LAST_SESSION_DATE, today);
+    await set(STORAGE_KEYS.STREAK_FREEZES, freezes);
 
     return currentStreak;
 }
 
 /**
- * Record a completed session
+ * Streak freezes available, never more than the configured maximum
  */
-export async function recordSession(session: Omit<DailySession, 'date'>): Promise<void> {
-    const sessions = await getSessions();
-    const today = getTodayString();
+export async function getStreakFreezes(): Promise<number> {
+    try {
+        const [freezes, settings] = await Promise.all([get(STORAGE_KEYS.STREAK_FREEZES), getSettings()]);
+        return Math.min(freezes || 0, settings.maxStreakFreezes);
+    } catch {
+        return 0;
+    }
+}
+
+// ============================================
+// VACATION MODE
+// ============================================
+
+export async function getVacation(): Promise<VacationState | null> {
+    try {
+        return (await get(STORAGE_KEYS.VACATION)) || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Pause the streak and the review clock from today
+ */
+export async function startVacation(): Promise<VacationState> {
+    const existing = await getVacation();
+    if (existing) return existing;
+
+    const vacation: VacationState = { since: getTodayString(await getSettings()) };
+    await set(STORAGE_KEYS.VACATION, vacation);
+    return vacation;
+}
+
+let vacationEnding: Promise<number> | null = null;
+
+/**
+ * End a vacation. Due dates, learning steps and the last study day move
+ * forward by the paused days, so reviews and the streak pick up where they
+ * left off. Cards already answered today were scheduled from today and stay put.
+ * Concurrent calls share one run, so nothing is shifted twice.
+ * Returns the number of paused days.
+ */
+export function endVacation(): Promise<number> {
+    if (!vacationEnding) {
+        vacationEnding = shiftPastVacation().finally(() => {
+            vacationEnding = null;
+        });
+    }
+    return vacationEnding;
+}
+
+async function shiftPastVacation(): Promise<number> {
+    const vacation = await getVacation();
+    if (!vacation) return 0;
+
+    const today = getTodayString(await getSettings());
+    const pausedDays = Math.max(0, daysBetween(vacation.since, today));
+
+    if (pausedDays > 0) {
+        await mutateWordStats(allStats => {
+            for (const [wordId, stats] of Object.entries(allStats)) {
+                if (!stats.nextDue) continue;
+                const cards = Object.fromEntries(
+                    Object.entries(stats.cards).map(([skill, card]) => [
+                        skill,
+                        card?.nextDue && !isToday(card.lastSeen, today) ? {
+                            ...card,
+                            nextDue: addDaysToDay(card.nextDue, pausedDays),
+                            dueAt: card.dueAt === null ? null : card.dueAt + pausedDays * MS_PER_DAY
+                        } : card
+                    ])
+                );
+                allStats[wordId] = {
+                    ...stats,
+                    cards,
+                    ...(summarizeCards(cards) ?? { nextDue: addDaysToDay(stats.nextDue, pausedDays) })
+                };
+            }
+        });
+
+        // No later than yesterday, so studying today still extends the streak
+        const lastSession: string | null = (await get(STORAGE_KEYS.LAST_SESSION_DATE)) || null;
+        if (lastSession) {
+            const shifted = addDaysToDay(toDay(lastSession), pausedDays);
+            const yesterday = addDaysToDay(today, -1);
+            await set(STORAGE_KEYS.LAST_SESSION_DATE, shifted < yesterday ? shifted : yesterday);
+        }
+    }
+
+    await set(STORAGE_KEYS.VACATION, null);
+    return pausedDays;
+}
+
+function createRollup(period: string): SessionRollup {
+    return {
+        period,
+        daysStudied: 0,
+        wordsStudied: 0,
+        correctAnswers: 0,
+        wrongAnswers: 0,
+        timeSpentMinutes: 0,
+        goalsCompleted: 0
+    };
+}
+
+/**
+ * Add a session to the week and month it falls in.
+ * `previous` is the day's session before this one was merged into it, if any.
+ */
+function addToRollups(
+    rollups: SessionRollups,
+    session: DailySession,
+    previous?: DailySession
+): void {
+    const periods: Record<RollupPeriod, string> = {
+        week: getWeekStart(session.date),
+        month: getMonth(session.date)
+    };
+
+    for (const period of Object.keys(periods) as RollupPeriod[]) {
+        const key = periods[period];
+        const rollup = rollups[period][key] || createRollup(key);
+
+        rollup.daysStudied += previous ? 0 : 1;
+        rollup.wordsStudied += session.wordsStudied - (previous?.wordsStudied ?? 0);
+        rollup.correctAnswers += session.correctAnswers - (previous?.correctAnswers ?? 0);
+        rollup.wrongAnswers += session.wrongAnswers - (previous?.wrongAnswers ?? 0);
+        rollup.timeSpentMinutes += session.timeSpentMinutes - (previous?.timeSpentMinutes ?? 0);
+        rollup.goalsCompleted += session.completedGoal && !previous?.completedGoal ? 1 : 0;
+
+        rollups[period][key] = rollup;
+    }
+}
+
+function buildRollups(sessions: DailySession[]): SessionRollups {
+    const rollups: SessionRollups = { week: {}, month: {} };
+    for (const session of sessions) {
+        addToRollups(rollups, session);
+    }
+    return rollups;
+}
+
+/**
+ * Record a completed session. The full daily history is kept, and the
+ * weekly and monthly rollups are updated as it is written.
+ * The day counts as a completed goal once its words studied reach the daily goal.
+ */
+export async function recordSession(
+    session: Omit<DailySession, 'date' | 'completedGoal'> & { completedGoal?: boolean }
+): Promise<void> {
+    const [sessions, rollups, settings] = await Promise.all([getSessions(), getAllRollups(), getSettings()]);
+    const today = getTodayString(settings);
 
     // Check if we already have a session for today
     const existingIndex = sessions.findIndex(s => s.date === today);
+    const previous = existingIndex >= 0 ? sessions[existingIndex] : undefined;
 
     const newSession: DailySession = {
         date: today,
-        ...session
+        ...session,
+        completedGoal: session.completedGoal || session.wordsStudied >= settings.dailyGoal
     };
 
     if (existingIndex >= 0) {
@@ -579,17 +1564,17 @@ export async function recordSession(session: Omit<DailySession, 'date'>): Promis
             correctAnswers: sessions[existingIndex].correctAnswers + session.correctAnswers,
             wrongAnswers: sessions[existingIndex].wrongAnswers + session.wrongAnswers,
             timeSpentMinutes: sessions[existingIndex].timeSpentMinutes + session.timeSpentMinutes,
-            completedGoal: session.completedGoal || sessions[existingIndex].completedGoal
+            completedGoal: newSession.completedGoal || sessions[existingIndex].completedGoal ||
+                sessions[existingIndex].wordsStudied + session.wordsStudied >= settings.dailyGoal
         };
     } else {
         sessions.push(newSession);
     }
 
-    // Keep only last 30 days
-    const cutoff = addDays(new Date(), -30).toISOString().split('T')[0];
-    const recentSessions = sessions.filter(s => s.date >= cutoff);
+    addToRollups(rollups, existingIndex >= 0 ? sessions[existingIndex] : newSession, previous);
 
-    await set(STORAGE_KEYS.SESSIONS, recentSessions);
+    await set(STORAGE_KEYS.SESSIONS, sessions);
+    await set(STORAGE_KEYS.SESSION_ROLLUPS, rollups);
     await updateStreak();
 }
 
@@ -598,16 +1583,31 @@ export async function recordSession(session: Omit<DailySession, 'date'>): Promis
 // ============================================
 
 export async function resetAllProgress(): Promise<void> {
-    await set(STORAGE_KEYS.WORD_STATS, {});
+    await saveWordStats({});
     await set(STORAGE_KEYS.SESSIONS, []);
+    await set(STORAGE_KEYS.SESSION_ROLLUPS, { week: {}, month: {} });
     await set(STORAGE_KEYS.CURRENT_STREAK, 0);
     await set(STORAGE_KEYS.LAST_SESSION_DATE, null);
+    await set(STORAGE_KEYS.STREAK_FREEZES, 0);
+    await set(STORAGE_KEYS.VACATION, null);
+    await set(STORAGE_KEYS.SCHEDULER_PARAMS, null);
+    await clearReviewLog();
+    clearUndoHistory();
 }
 
+/**
+ * Start a word over as new. Any personal note is kept.
+ */
 export async function resetWordProgress(wordId: string): Promise<void> {
-    const allStats = await getWordStats();
-    delete allStats[wordId];
-    await saveWordStats(allStats);
+    await mutateWordStats(allStats => {
+        const note = allStats[wordId]?.note;
+
+        if (note) {
+            allStats[wordId] = { ...createWordStats(wordId), note };
+        } else {
+            delete allStats[wordId];
+        }
+    });
 }
 
 // ============================================
@@ -0,0 +1,152 @@
+/**
+ * Optimizer - fit scheduling to the learner's own review history
+ *
+ * Models recall as an exponential forgetting curve whose stability is a
+ * multiple of the interval the scheduler chose. Fitting that multiple to
+ * past answers says how long memories really last compared with what the
+ * scheduler assumed; from it follows the interval modifier that hits a
+ * target retention. Pure functions only, so the fit can run in a worker.
+ */
+
+import type { ReviewLogEntry } from './ReviewLog';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SchedulerParams {
+    stabilityFactor: number; // how long memories last relative to the scheduled intervals
+    reviewCount: number; // reviews the fit is based on
+    actualRetention: number; // share of the held-out reviews recalled
+    predictedRetention: number; // share of the held-out reviews the fitted model expected to be recalled
+    fittedAt: number; // ms timestamp
+}
+
+interface Observation {
+    elapsed: number; // days since the previous answer
+    interval: number; // days the scheduler chose, before any modifier
+    recalled: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Retention the built-in schedulers' intervals are taken to aim for
+const BASE_RETENTION = 0.9;
+
+// Fewer reviews than this are too little to fit
+export const MIN_REVIEWS = 30;
+
+// Share of the most recent reviews kept out of the fit to check it against
+const HOLDOUT_SHARE = 0.2;
+
+// Shorter gaps between answers are learning steps, not reviews
+const MIN_ELAPSED_DAYS = 0.5;
+
+const MIN_FACTOR = 0.1;
+const MAX_FACTOR = 10;
+const MIN_MODIFIER = 0.25;
+const MAX_MODIFIER = 4;
+
+const SEARCH_ITERATIONS = 60;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================
+// MODEL
+// ============================================
+
+function recallProbability(observation: Observation, factor: number): number {
+    const p = Math.pow(BASE_RETENTION, observation.elapsed / (factor * observation.interval));
+    return Math.min(1 - 1e-6, Math.max(1e-6, p));
+}
+
+function logLikelihood(observations: Observation[], factor: number): number {
+    return observations.reduce((sum, o) => {
+        const p = recallProbability(o, factor);
+        return sum + Math.log(o.recalled ? p : 1 - p);
+    }, 0);
+}
+
+/**
+ * Reviews of graduated cards from a chronological log: each answer paired
+ * with the previous answer on the same card
+ */
+function collectObservations(entries: ReviewLogEntry[]): Observation[] {
+    const lastAnswer = new Map<string, ReviewLogEntry>();
+    const observations: Observation[] = [];
+
+    for (const entry of entries) {
+        if (entry.grade === null) continue;
+
+        const key = `${entry.wordId}:${entry.skill}`;
+        const previous = lastAnswer.get(key);
+        lastAnswer.set(key, entry);
+
+        if (!previous || entry.previousInterval < 1) continue;
+        const elapsed = (entry.timestamp - previous.timestamp) / MS_PER_DAY;
+        if (elapsed < MIN_ELAPSED_DAYS) continue;
+
+        observations.push({
+            elapsed,
+            interval: entry.previousInterval / (previous.intervalModifier ?? 1),
+            recalled: entry.grade !== 'again'
+        });
+    }
+    return observations;
+}
+
+// ============================================
+// FITTING
+// ============================================
+
+/**
+ * Fit the stability factor to a chronological review log by maximum
+ * likelihood. The most recent reviews are held out of the fit, and the
+ * reported retention is measured on them. Returns null when there are too
+ * few reviews to go on.
+ */
+export function fitSchedulerParams(entries: ReviewLogEntry[]): SchedulerParams | null {
+    const all = collectObservations(entries);
+    if (all.length < MIN_REVIEWS) return null;
+
+    const split = all.length - Math.max(1, Math.round(all.length * HOLDOUT_SHARE));
+    const observations = all.slice(0, split);
+    const heldOut = all.slice(split);
+
+    // The likelihood has a single peak in log(factor): golden-section search
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let lo = Math.log(MIN_FACTOR);
+    let hi = Math.log(MAX_FACTOR);
+    for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+        const a = hi - ratio * (hi - lo);
+        const b = lo + ratio * (hi - lo);
+        if (logLikelihood(observations, Math.exp(a)) < logLikelihood(observations, Math.exp(b))) {
+            lo = a;
+        } else {
+            hi = b;
+        }
+    }
+    const stabilityFactor = Math.exp((lo + hi) / 2);
+
+    const recalled = heldOut.filter(o => o.recalled).length;
+    const predicted = heldOut.reduce((sum, o) => sum + recallProbability(o, stabilityFactor), 0);
+
+    return {
+        stabilityFactor,
+        reviewCount: observations.length,
+        actualRetention: recalled / heldOut.length,
+        predictedRetention: predicted / heldOut.length,
+        fittedAt: Date.now()
+    };
+}
+
+/**
+ * What to multiply scheduled intervals by to reach the target retention.
+ * Without fitted params the schedulers are taken at their word.
+ */
+export function getIntervalModifier(targetRetention: number, params: SchedulerParams | null): number {
+    const factor = params?.stabilityFactor ?? 1;
+    const modifier = factor * Math.log(targetRetention) / Math.log(BASE_RETENTION);
+    return Math.min(MAX_MODIFIER, Math.max(MIN_MODIFIER, modifier));
+}
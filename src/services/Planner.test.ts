@@ -0,0 +1,41 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clear } from 'idb-keyval';
+import { createStudyPlan, exceedsReviewLimit, refreshStudyPlan } from './Planner';
+import { BUILT_IN_WORDS } from './Decks';
+import { getSettings, saveSettings } from './LearningEngine';
+import { addDaysToDay, getStudyDay } from '../utils/date';
+
+beforeEach(async () => {
+    await clear();
+});
+
+async function setReviewLimit(maxReviewsPerDay: number): Promise<string> {
+    const settings = await getSettings();
+    await saveSettings({ ...settings, maxReviewsPerDay });
+    return getStudyDay(settings.dayStartHour);
+}
+
+describe('study plans', () => {
+    it('keeps the simulated reviews within the review limit', async () => {
+        const today = await setReviewLimit(20);
+        const plan = await createStudyPlan(BUILT_IN_WORDS, { goal: 'see', categories: [], targetDate: addDaysToDay(today, 30) });
+
+        expect(plan.feasible).toBe(true);
+        expect(Math.max(...plan.projectedReviews)).toBeLessThanOrEqual(20);
+        expect(exceedsReviewLimit(plan)).toBe(true);
+        expect(plan.projectedBacklog.some(count => count > 0)).toBe(true);
+    });
+
+    it('is worked out again when the review limit changes', async () => {
+        const today = await setReviewLimit(20);
+        const plan = await createStudyPlan(BUILT_IN_WORDS, { goal: 'see', categories: [], targetDate: addDaysToDay(today, 30) });
+
+        await setReviewLimit(300);
+        const refreshed = await refreshStudyPlan(BUILT_IN_WORDS);
+
+        expect(refreshed?.plan.reviewLimit).toBe(300);
+        expect(Math.max(...refreshed!.plan.projectedReviews)).toBeGreaterThan(Math.max(...plan.projectedReviews));
+        expect(refreshed?.fellBehind).toBe(false);
+    });
+});
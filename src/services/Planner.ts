@@ -0,0 +1,302 @@
+/**
+ * Planner - study plans that work back from a goal date
+ *
+ * A plan names what to reach by when: every word seen, or every word
+ * mastered, across all words or a few categories. The daily new-word
+ * count it needs comes from simulating the scheduler forward day by day,
+ * which also gives the review load to expect. The simulation keeps to the
+ * learner's review limit as the daily queue does, carrying reviews over it
+ * to later days. The new-word count is written into the learning settings,
+ * and the plan is redone each day, or when the review limit changes, so
+ * that falling behind raises the daily count instead of missing the date.
+ */
+
+import { getScheduler, scaleInterval, unscaleInterval, INITIAL_SCHEDULER_STATE, type ReviewGrade, type SchedulerState } from './Scheduler';
+import { getIntervalModifier } from './Optimizer';
+import { getWordStats, getSettings, saveSettings, getSchedulerParams, type LearningSettings } from './LearningEngine';
+import { getStudyDay, daysBetween, toDay } from '../utils/date';
+import type { Word, WordStats } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PlanGoal = 'see' | 'master';
+
+export interface PlanTarget {
+    goal: PlanGoal;
+    categories: string[]; // empty for all words
+    targetDate: string; // study day to be done by
+}
+
+export interface StudyPlan extends PlanTarget {
+    plannedOn: string; // study day the plan was last worked out
+    newPerDay: number;
+    feasible: boolean; // false when even MAX_NEW_PER_DAY can't make the date
+    projectedReviews: number[]; // reviews expected on each day from plannedOn
+    projectedBacklog: number[]; // due reviews left over the review limit at the end of each day
+    reviewLimit: number; // maxReviewsPerDay the plan was worked out with
+    remaining: number; // target words not yet seen or mastered when planned
+}
+
+export interface PlanProgress {
+    done: number;
+    total: number;
+}
+
+interface SimCard {
+    state: SchedulerState;
+    due: number; // day offset from the start of the simulation
+    target: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Level from which a word counts as mastered (see getDifficultyLabel)
+const MASTERED_LEVEL = 4;
+
+// Most new words a plan may ask for in a day
+export const MAX_NEW_PER_DAY = 50;
+
+// Fixed seed so the same history always gives the same plan
+const SIMULATION_SEED = 20240301;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Small seeded random generator (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+    let a = seed;
+    return () => {
+        a = (a + 0x6d2b79f5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function isPlanWord(word: Word, plan: PlanTarget): boolean {
+    return plan.categories.length === 0 || plan.categories.includes(word.category);
+}
+
+function isDone(stats: WordStats | undefined, goal: PlanGoal): boolean {
+    if (!stats || stats.seen === 0) return false;
+    return goal === 'see' || stats.level >= MASTERED_LEVEL;
+}
+
+/**
+ * Days left to study before the target date, at least one
+ */
+function getDaysLeft(today: string, targetDate: string): number {
+    return Math.max(1, daysBetween(today, targetDate));
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+/**
+ * Run the scheduler forward, introducing `newPerDay` target words a day and
+ * recalling each review with the target retention. Each day takes at most
+ * the review limit, most overdue first; the rest wait for the next day.
+ * Returns the reviews and the left-over backlog on each day, and whether
+ * the target cards reached the goal by the last day.
+ */
+function simulate(
+    existing: SimCard[],
+    newTargets: number,
+    newPerDay: number,
+    days: number,
+    goal: PlanGoal,
+    settings: LearningSettings,
+    intervalModifier: number
+): { reviews: number[]; backlog: number[]; reached: boolean } {
+    const scheduler = getScheduler(settings.scheduler);
+    const random = seededRandom(SIMULATION_SEED);
+    const cards = existing.map(card => ({ ...card }));
+    const reviews: number[] = [];
+    const backlog: number[] = [];
+    let introduced = 0;
+
+    const answer = (card: SimCard, grade: ReviewGrade, day: number) => {
+        const { state } = scheduler.schedule(card.state, grade);
+        // Same-day repeats are learning steps; the next review is tomorrow at the earliest
+        const interval = scaleInterval(Math.max(1, state.interval), intervalModifier);
+        // The state keeps the scheduler's own interval, so the modifier doesn't compound
+        card.state = state;
+        card.due = day + interval;
+    };
+
+    for (let day = 0; day < days; day++) {
+        const due = cards.filter(card => card.due <= day);
+        if (due.length > settings.maxReviewsPerDay) {
+            due.sort((a, b) => a.due - b.due);
+        }
+        const reviewed = due.slice(0, settings.maxReviewsPerDay);
+        for (const card of reviewed) {
+            answer(card, random() < settings.targetRetention ? 'good' : 'again', day);
+        }
+        reviews.push(reviewed.length);
+        backlog.push(due.length - reviewed.length);
+
+        const count = Math.min(newPerDay, newTargets - introduced);
+        for (let i = 0; i < count; i++) {
+            const card: SimCard = { state: { ...INITIAL_SCHEDULER_STATE }, due: day, target: true };
+            answer(card, 'good', day);
+            cards.push(card);
+        }
+        introduced += count;
+    }
+
+    // Some mastered words are always just forgotten, so mastery counts as
+    // reached once the target retention's share of the words is there
+    const targets = cards.filter(card => card.target);
+    const mastered = targets.filter(card => card.state.level >= MASTERED_LEVEL).length;
+    const reached = introduced === newTargets &&
+        (goal === 'see' || mastered >= targets.length * settings.targetRetention);
+    return { reviews, backlog, reached };
+}
+
+/**
+ * Work out the plan for a target from today's progress
+ */
+async function computePlan(words: Word[], target: PlanTarget): Promise<StudyPlan> {
+    const [allStats, settings, params] = await Promise.all([getWordStats(), getSettings(), getSchedulerParams()]);
+    const today = getStudyDay(settings.dayStartHour);
+    const days = getDaysLeft(today, target.targetDate);
+    const intervalModifier = getIntervalModifier(settings.targetRetention, params);
+
+    const existing: SimCard[] = [];
+    let newTargets = 0;
+    let remaining = 0;
+
+    for (const word of words) {
+        const stats = allStats[word.id];
+        const planWord = isPlanWord(word, target);
+        if (planWord && !isDone(stats, target.goal)) remaining += 1;
+
+        if (!stats || stats.seen === 0) {
+            if (planWord) newTargets += 1;
+        } else if (!stats.suspended) {
+            const { level, streak, ease, interval, reps, lapses } = stats;
+            existing.push({
+                state: { level, streak, ease, interval: unscaleInterval(interval, intervalModifier), reps, lapses },
+                due: stats.nextDue ? Math.max(0, daysBetween(today, toDay(stats.nextDue))) : 0,
+                target: planWord
+            });
+        }
+    }
+
+    const run = (newPerDay: number) =>
+        simulate(existing, newTargets, newPerDay, days, target.goal, settings, intervalModifier);
+
+    // Fewest new words a day that still reaches the goal. Counted up from the
+    // fewest that introduce every word in time: under the review limit more
+    // new words can mean fewer mastered, so the counts can't be bisected.
+    let newPerDay = Math.ceil(newTargets / days);
+    let result = run(Math.min(newPerDay, MAX_NEW_PER_DAY));
+    while (!result.reached && newPerDay < MAX_NEW_PER_DAY) {
+        newPerDay += 1;
+        result = run(newPerDay);
+    }
+    const feasible = result.reached && newPerDay <= MAX_NEW_PER_DAY;
+    if (!feasible) {
+        newPerDay = MAX_NEW_PER_DAY;
+        result = run(newPerDay);
+    }
+
+    return {
+        ...target,
+        plannedOn: today,
+        newPerDay,
+        feasible,
+        projectedReviews: result.reviews,
+        projectedBacklog: result.backlog,
+        reviewLimit: settings.maxReviewsPerDay,
+        remaining
+    };
+}
+
+/**
+ * Put a plan into effect: it sets the daily new-word limit. The review
+ * limit is left alone; the plan is worked out within it.
+ */
+async function applyPlan(plan: StudyPlan): Promise<void> {
+    const settings = await getSettings();
+    await saveSettings({
+        ...settings,
+        studyPlan: plan,
+        maxNewPerDay: plan.newPerDay
+    });
+}
+
+/**
+ * Most reviews the plan expects on a single day
+ */
+export function getPeakReviews(plan: StudyPlan): number {
+    return Math.max(0, ...plan.projectedReviews);
+}
+
+/**
+ * Whether some day has more reviews due than the daily limit allows. The
+ * plan allows for the reviews that wait, but they come back overdue.
+ */
+export function exceedsReviewLimit(plan: StudyPlan): boolean {
+    return plan.projectedBacklog.some(count => count > 0);
+}
+
+// ============================================
+// PLANS
+// ============================================
+
+export async function createStudyPlan(words: Word[], target: PlanTarget): Promise<StudyPlan> {
+    const plan = await computePlan(words, target);
+    await applyPlan(plan);
+    return plan;
+}
+
+export async function clearStudyPlan(): Promise<void> {
+    const settings = await getSettings();
+    await saveSettings({ ...settings, studyPlan: null });
+}
+
+/**
+ * Redo the plan once per study day, and when the review limit has changed
+ * since it was worked out. `fellBehind` is set when a new day's plan asks
+ * for more new words a day than the last one did.
+ */
+export async function refreshStudyPlan(words: Word[]): Promise<{ plan: StudyPlan; fellBehind: boolean } | null> {
+    const settings = await getSettings();
+    const current = settings.studyPlan;
+    if (!current) return null;
+
+    const today = getStudyDay(settings.dayStartHour);
+    const sameDay = current.plannedOn === today;
+    if (sameDay && current.reviewLimit === settings.maxReviewsPerDay) {
+        return { plan: current, fellBehind: false };
+    }
+
+    const plan = await computePlan(words, current);
+    await applyPlan(plan);
+    return {
+        plan,
+        fellBehind: !sameDay && (plan.newPerDay > current.newPerDay || (current.feasible && !plan.feasible))
+    };
+}
+
+/**
+ * How many of the plan's words have reached its goal
+ */
+export async function getPlanProgress(words: Word[], plan: PlanTarget): Promise<PlanProgress> {
+    const allStats = await getWordStats();
+    const planWords = words.filter(word => isPlanWord(word, plan));
+    return {
+        done: planWords.filter(word => isDone(allStats[word.id], plan.goal)).length,
+        total: planWords.length
+    };
+}
@@ -0,0 +1,160 @@
+/**
+ * Review Log - append-only record of every answer
+ *
+ * Each call to updateStatsOnResult appends one entry, so the history can be
+ * analysed, undone or replayed through a scheduler later. Entries live in
+ * their own IndexedDB store keyed by timestamp, which keeps appends cheap
+ * and makes chronological order the natural key order.
+ */
+
+import { createStore, set, del, values, keys, delMany, clear } from 'idb-keyval';
+import type { ReviewGrade } from './Scheduler';
+import type { AnswerType, LearningResult, StudyMode } from './LearningEngine';
+import type { Skill } from './SkillCards';
+import type { MistakeType } from '../utils/text';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReviewLogEntry {
+    id: string;
+    wordId: string;
+    timestamp: number; // ms since epoch
+    mode: StudyMode;
+    answerType: AnswerType;
+    skill: Skill;
+    result: LearningResult;
+    grade: ReviewGrade | null; // null when skipped
+    responseTimeMs: number | null;
+    previousInterval: number; // days, for the practised card
+    newInterval: number; // days, for the practised card
+    intervalModifier?: number; // applied to newInterval for the target retention; absent before it existed
+    mistakes?: MistakeType[]; // kinds of mistake in a typed or spoken answer; absent when there were none
+}
+
+export interface ReviewLogQuery {
+    wordId?: string;
+    mode?: StudyMode;
+    from?: Date | number;
+    to?: Date | number;
+}
+
+export interface CompactionOptions {
+    maxEntries?: number;
+    maxAgeDays?: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const logStore = createStore('espanish-review-log', 'entries');
+
+const DEFAULT_MAX_ENTRIES = 50000;
+const DEFAULT_MAX_AGE_DAYS = 730;
+
+// Compact after this many appends in one app session
+const COMPACT_EVERY = 200;
+
+let appendsSinceCompaction = 0;
+
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
+/**
+ * Keys sort chronologically: zero-padded timestamp plus a random suffix
+ */
+function createEntryId(timestamp: number): string {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    return `${timestamp.toString().padStart(15, '0')}-${suffix}`;
+}
+
+function toTimestamp(value: Date | number): number {
+    return typeof value === 'number' ? value : value.getTime();
+}
+
+// ============================================
+// WRITE
+// ============================================
+
+/**
+ * Append an entry to the log, compacting it now and then
+ */
+export async function appendReviewLog(
+    entry: Omit<ReviewLogEntry, 'id' | 'timestamp'> & { timestamp?: number }
+): Promise<ReviewLogEntry> {
+    const timestamp = entry.timestamp ?? Date.now();
+    const logged: ReviewLogEntry = { ...entry, id: createEntryId(timestamp), timestamp };
+    await set(logged.id, logged, logStore);
+
+    appendsSinceCompaction += 1;
+    if (appendsSinceCompaction >= COMPACT_EVERY) {
+        appendsSinceCompaction = 0;
+        await compactReviewLog();
+    }
+
+    return logged;
+}
+
+/**
+ * Remove old entries so the log stays bounded.
+ * Drops anything older than maxAgeDays, then the oldest entries beyond maxEntries.
+ */
+export async function compactReviewLog(options: CompactionOptions = {}): Promise<number> {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const maxAgeDays = options.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS;
+
+    const allKeys = (await keys(logStore)) as string[];
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    const expired = allKeys.filter(key => parseInt(key, 10) < cutoff);
+    const remaining = allKeys.length - expired.length;
+    const overflow = allKeys
+        .slice(expired.length)
+        .slice(0, Math.max(0, remaining - maxEntries));
+
+    const toDelete = [...expired, ...overflow];
+    if (toDelete.length > 0) {
+        await delMany(toDelete, logStore);
+    }
+    return toDelete.length;
+}
+
+/**
+ * Remove a single entry, e.g. when its answer is undone
+ */
+export async function deleteReviewLogEntry(id: string): Promise<void> {
+    await del(id, logStore);
+}
+
+export async function clearReviewLog(): Promise<void> {
+    await clear(logStore);
+}
+
+// ============================================
+// QUERY
+// ============================================
+
+/**
+ * Get log entries in chronological order, filtered by word, mode and/or date range
+ */
+export async function queryReviewLog(query: ReviewLogQuery = {}): Promise<ReviewLogEntry[]> {
+    try {
+        const entries = (await values(logStore)) as ReviewLogEntry[];
+        const from = query.from !== undefined ? toTimestamp(query.from) : -Infinity;
+        const to = query.to !== undefined ? toTimestamp(query.to) : Infinity;
+
+        return entries
+            .filter(e =>
+                (!query.wordId || e.wordId === query.wordId) &&
+                (!query.mode || e.mode === query.mode) &&
+                e.timestamp >= from &&
+                e.timestamp <= to
+            )
+            .sort((a, b) => a.timestamp - b.timestamp);
+    } catch {
+        return [];
+    }
+}
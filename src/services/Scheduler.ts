@@ -0,0 +1,235 @@
+/**
+ * Schedulers - decide when a word should be reviewed next
+ *
+ * Each scheduler takes the current per-word scheduling state and a recall
+ * grade, and returns the next state plus the interval (in days) until the
+ * word is due again. The Learning Engine picks one based on settings.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+export type SchedulerId = 'classic' | 'sm2';
+
+export interface SchedulerState {
+    level: number; // 0-5
+    streak: number; // consecutive successful recalls
+    ease: number; // SM-2 ease factor
+    interval: number; // days until next review
+    reps: number; // successful reviews since the last lapse
+    lapses: number; // times the word was forgotten
+}
+
+export interface ScheduleResult {
+    state: SchedulerState;
+    interval: number;
+}
+
+export interface Scheduler {
+    id: SchedulerId;
+    label: string;
+    schedule(state: SchedulerState, grade: ReviewGrade): ScheduleResult;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Classic intervals by level (in days)
+export const CLASSIC_INTERVALS: Record<number, number> = {
+    0: 0,    // Same day
+    1: 1,    // +1 day
+    2: 3,    // +3 days
+    3: 7,    // +7 days
+    4: 14,   // +14 days
+    5: 30    // +30 days
+};
+
+const MAX_LEVEL = 5;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL = 365;
+
+export const INITIAL_SCHEDULER_STATE: SchedulerState = {
+    level: 0,
+    streak: 0,
+    ease: DEFAULT_EASE,
+    interval: 0,
+    reps: 0,
+    lapses: 0
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Map an interval back onto the 0-5 level scale used by progress views
+ */
+export function levelForInterval(interval: number): number {
+    let level = 0;
+    for (let l = 0; l <= MAX_LEVEL; l++) {
+        if (interval >= CLASSIC_INTERVALS[l]) level = l;
+    }
+    return level;
+}
+
+/**
+ * Scale a whole-day interval, e.g. by the target-retention modifier.
+ * Same-day intervals stay as they are.
+ */
+export function scaleInterval(interval: number, modifier: number): number {
+    if (interval < 1) return interval;
+    return Math.min(MAX_INTERVAL, Math.max(1, Math.round(interval * modifier)));
+}
+
+/**
+ * The interval a scheduler chose before it was scaled by `modifier`.
+ * Schedulers that grow the last interval work from this, so the modifier
+ * is applied once per interval rather than compounding with each review.
+ */
+export function unscaleInterval(interval: number, modifier: number): number {
+    if (interval < 1) return interval;
+    return interval / modifier;
+}
+
+/**
+ * Short label for an interval, e.g. "10m", "<1d", "3d", "2mo".
+ * Intervals under a day are learning steps.
+ */
+export function formatInterval(interval: number): string {
+    if (interval <= 0) return '<1d';
+    if (interval < 1) {
+        const minutes = Math.max(1, Math.round(interval * 24 * 60));
+        return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+    }
+    if (interval < 30) return `${interval}d`;
+    if (interval < 365) return `${Math.round(interval / 30)}mo`;
+    return `${Math.round(interval / 365)}y`;
+}
+
+/**
+ * Move a card along its intraday learning steps. Again goes back to the
+ * first step, Hard repeats the current one, Good moves to the next and
+ * Easy skips the rest. Returns null when the card graduates.
+ */
+export function nextLearningStep(step: number, grade: ReviewGrade, steps: number[]): number | null {
+    if (grade === 'easy') return null;
+    const next = grade === 'again' ? 0 : grade === 'hard' ? step : step + 1;
+    return next < steps.length ? next : null;
+}
+
+/**
+ * Build scheduler state for a word stored before schedulers existed
+ */
+export function migrateSchedulerState(
+    legacy: { level: number; streak: number; wrong: number }
+): SchedulerState {
+    const level = Math.min(Math.max(legacy.level, 0), MAX_LEVEL);
+    return {
+        level,
+        streak: legacy.streak,
+        ease: DEFAULT_EASE,
+        interval: CLASSIC_INTERVALS[level],
+        reps: level,
+        lapses: legacy.wrong
+    };
+}
+
+// ============================================
+// CLASSIC (LEVEL TABLE)
+// ============================================
+
+const classicScheduler: Scheduler = {
+    id: 'classic',
+    label: 'Classic',
+    schedule(state, grade) {
+        const next = { ...state };
+
+        if (grade === 'again') {
+            next.streak = 0;
+            next.reps = 0;
+            next.lapses += 1;
+
+            // Level down (min 0)
+            if (next.level > 0) {
+                next.level -= 1;
+            }
+        } else {
+            next.streak += 1;
+            next.reps += 1;
+
+            // Hard holds the level, Easy always moves up,
+            // Good levels up once the streak reaches 2
+            const levelUp = grade === 'easy' || (grade === 'good' && next.streak >= 2);
+            if (levelUp && next.level < MAX_LEVEL) {
+                next.level += 1;
+            }
+        }
+
+        next.interval = CLASSIC_INTERVALS[next.level];
+        return { state: next, interval: next.interval };
+    }
+};
+
+// ============================================
+// SM-2 (EASE FACTOR)
+// ============================================
+
+const sm2Scheduler: Scheduler = {
+    id: 'sm2',
+    label: 'Adaptive (SM-2)',
+    schedule(state, grade) {
+        const next = { ...state };
+
+        if (grade === 'again') {
+            next.streak = 0;
+            next.reps = 0;
+            next.lapses += 1;
+            next.ease = Math.max(MIN_EASE, next.ease - 0.2);
+            next.interval = 0;
+        } else {
+            next.streak += 1;
+
+            let interval: number;
+            if (next.reps === 0) {
+                interval = 1;
+            } else if (next.reps === 1) {
+                interval = 3;
+            } else {
+                interval = next.interval * next.ease;
+            }
+
+            if (grade === 'hard') {
+                next.ease = Math.max(MIN_EASE, next.ease - 0.15);
+                interval = Math.max(1, next.interval * 1.2);
+            } else if (grade === 'easy') {
+                next.ease += 0.15;
+                interval *= 1.3;
+            }
+
+            next.reps += 1;
+            next.interval = Math.min(MAX_INTERVAL, Math.max(1, Math.round(interval)));
+        }
+
+        next.level = levelForInterval(next.interval);
+        return { state: next, interval: next.interval };
+    }
+};
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+    classic: classicScheduler,
+    sm2: sm2Scheduler
+};
+
+export function getScheduler(id: SchedulerId): Scheduler {
+    return SCHEDULERS[id] || classicScheduler;
+}
@@ -0,0 +1,152 @@
+/**
+ * Skill Cards - separate schedules for each way a word is practised
+ *
+ * A word has up to four cards: recognition (es → en), production (en → es),
+ * listening (by ear) and speaking (aloud). Each card keeps its own scheduler
+ * state, so knowing a word one way says nothing about knowing it another.
+ */
+
+import { INITIAL_SCHEDULER_STATE, type SchedulerState } from './Scheduler';
+import { toDay } from '../utils/date';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Skill = 'recognition' | 'production' | 'listening' | 'speaking';
+
+export interface SkillCard extends SchedulerState {
+    seen: number;
+    correct: number;
+    wrong: number;
+    lastSeen: string | null; // study day
+    nextDue: string | null; // study day
+    learningStep: number | null; // current learning step, null once graduated
+    relearning: boolean; // on the relearning steps after a lapse
+    dueAt: number | null; // ms timestamp while on a learning step
+}
+
+export type SkillCards = Partial<Record<Skill, SkillCard>>;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SKILLS: Skill[] = ['recognition', 'production', 'listening', 'speaking'];
+
+export const SKILL_LABELS: Record<Skill, string> = {
+    recognition: 'Recognition',
+    production: 'Production',
+    listening: 'Listening',
+    speaking: 'Speaking'
+};
+
+// A skill is introduced once another card reaches the given level
+const SKILL_UNLOCKS: Record<Exclude<Skill, 'recognition'>, { after: Skill; level: number }> = {
+    production: { after: 'recognition', level: 2 },
+    listening: { after: 'recognition', level: 2 },
+    speaking: { after: 'production', level: 2 }
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function createSkillCard(): SkillCard {
+    return {
+        ...INITIAL_SCHEDULER_STATE,
+        seen: 0,
+        correct: 0,
+        wrong: 0,
+        lastSeen: null,
+        nextDue: null,
+        learningStep: null,
+        relearning: false,
+        dueAt: null
+    };
+}
+
+/**
+ * Skills a word can currently be drilled in: recognition always,
+ * the others once their prerequisite card is strong enough
+ */
+export function getUnlockedSkills(cards: SkillCards, allowSpeaking: boolean): Skill[] {
+    return SKILLS.filter(skill => {
+        if (skill === 'recognition') return true;
+        if (skill === 'speaking' && !allowSpeaking) return false;
+        if (cards[skill]?.seen) return true;
+        const unlock = SKILL_UNLOCKS[skill];
+        return (cards[unlock.after]?.level ?? 0) >= unlock.level;
+    });
+}
+
+function weakest(cards: SkillCards, skills: Skill[]): Skill {
+    return skills.reduce((best, skill) =>
+        (cards[skill]?.level ?? 0) < (cards[best]?.level ?? 0) ? skill : best
+    );
+}
+
+/**
+ * Pick the skill to drill today: the unlocked card that is due and weakest.
+ * Unlocked cards that were never practised count as due; cards on a
+ * learning step are due once their step time has passed.
+ * Returns null when nothing is due.
+ */
+export function pickSkillToDrill(
+    cards: SkillCards,
+    today: string,
+    allowSpeaking: boolean,
+    now: number = Date.now()
+): Skill | null {
+    const due = getUnlockedSkills(cards, allowSpeaking).filter(skill => {
+        const card = cards[skill];
+        if (!card || !card.nextDue) return true;
+        return toDay(card.nextDue) <= today && (card.dueAt === null || card.dueAt <= now);
+    });
+    return due.length > 0 ? weakest(cards, due) : null;
+}
+
+/**
+ * The weakest unlocked skill, for extra practice when nothing is due
+ */
+export function pickWeakestSkill(cards: SkillCards, allowSpeaking: boolean): Skill {
+    return weakest(cards, getUnlockedSkills(cards, allowSpeaking));
+}
+
+/**
+ * The card on a learning step that comes due first, if any
+ */
+export function getNextLearningCard(cards: SkillCards): { skill: Skill; dueAt: number } | null {
+    let next: { skill: Skill; dueAt: number } | null = null;
+    for (const skill of SKILLS) {
+        const dueAt = cards[skill]?.dueAt;
+        if (dueAt != null && (!next || dueAt < next.dueAt)) {
+            next = { skill, dueAt };
+        }
+    }
+    return next;
+}
+
+/**
+ * Word-level summary of the practised cards. The word is only as strong as
+ * its weakest card (level), is due when its earliest card is due, and has
+ * the lapses of all cards combined. Remaining state follows the earliest card.
+ */
+export function summarizeCards(cards: SkillCards): (SchedulerState & { nextDue: string | null }) | null {
+    const practised = SKILLS.map(skill => cards[skill]).filter((card): card is SkillCard => !!card && card.seen > 0);
+    if (practised.length === 0) return null;
+
+    const earliest = practised.reduce((a, b) =>
+        toDay(b.nextDue || '') < toDay(a.nextDue || '') ? b : a
+    );
+
+    return {
+        level: Math.min(...practised.map(card => card.level)),
+        streak: earliest.streak,
+        ease: earliest.ease,
+        interval: earliest.interval,
+        reps: earliest.reps,
+        lapses: practised.reduce((sum, card) => sum + card.lapses, 0),
+        nextDue: earliest.nextDue
+    };
+}
@@ -0,0 +1,162 @@
+/**
+ * Storage - IndexedDB keys and schema migrations
+ *
+ * The stored data carries a schema version. On startup, every migration
+ * newer than that version runs in order, and the version is saved after
+ * each step, so an interrupted upgrade resumes where it stopped.
+ * New stored fields ship as a new migration appended to MIGRATIONS.
+ */
+
+import { get, set, update } from 'idb-keyval';
+import { migrateSchedulerState } from './Scheduler';
+import type { Skill, SkillCard } from './SkillCards';
+import type { WordStats } from '../types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const STORAGE_KEYS = {
+    SCHEMA_VERSION: 'espanish-schema-version',
+    WORD_STATS: 'espanish-word-stats',
+    SETTINGS: 'espanish-learning-settings',
+    SESSIONS: 'espanish-sessions',
+    CURRENT_STREAK: 'espanish-streak',
+    LAST_SESSION_DATE: 'espanish-last-session',
+    SESSION_ROLLUPS: 'espanish-session-rollups',
+    STREAK_FREEZES: 'espanish-streak-freezes',
+    VACATION: 'espanish-vacation',
+    GAME_SCORES: 'espanish-game-scores',
+    SCHEDULER_PARAMS: 'espanish-scheduler-params',
+    DECKS: 'espanish-decks',
+    ACTIVE_DECK: 'espanish-active-deck'
+};
+
+// ============================================
+// MIGRATIONS
+// ============================================
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: () => Promise<void>;
+}
+
+// Word stats as saved by some earlier version
+type StoredStats = Partial<Omit<WordStats, 'cards'>>
+    & Pick<WordStats, 'wordId' | 'seen' | 'correct' | 'wrong' | 'streak' | 'level'>
+    & { cards?: Partial<Record<Skill, Partial<SkillCard>>> };
+
+/**
+ * Rewrite every stored word stats entry in a single transaction
+ */
+async function migrateEachWordStats(migrate: (stats: StoredStats) => StoredStats): Promise<void> {
+    await update<Record<string, StoredStats>>(STORAGE_KEYS.WORD_STATS, stored => {
+        const allStats = stored || {};
+        for (const wordId of Object.keys(allStats)) {
+            allStats[wordId] = migrate(allStats[wordId]);
+        }
+        return allStats;
+    });
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Scheduler state (ease, interval, reps, lapses) from the level table',
+        migrate: () => migrateEachWordStats(stats =>
+            typeof stats.ease === 'number' ? stats : { ...stats, ...migrateSchedulerState(stats) }
+        )
+    },
+    {
+        version: 2,
+        description: 'Leech, suspension and note fields',
+        migrate: () => migrateEachWordStats(stats => ({
+            leech: false,
+            suspended: false,
+            note: '',
+            ...stats
+        }))
+    },
+    {
+        version: 3,
+        description: 'Per-skill cards; earlier progress was all recognition practice',
+        migrate: () => migrateEachWordStats(stats => {
+            if (stats.cards) return stats;
+            if (stats.seen === 0) return { ...stats, cards: {} };
+
+            const { level, streak, ease, interval, reps, lapses } = { ...migrateSchedulerState(stats), ...stats };
+            return {
+                ...stats,
+                cards: {
+                    recognition: {
+                        level,
+                        streak,
+                        ease,
+                        interval,
+                        reps,
+                        lapses,
+                        seen: stats.seen,
+                        correct: stats.correct,
+                        wrong: stats.wrong,
+                        lastSeen: stats.lastSeen ?? null,
+                        nextDue: stats.nextDue ?? null
+                    }
+                }
+            };
+        })
+    },
+    {
+        version: 4,
+        description: 'Answer latency samples and their median',
+        migrate: () => migrateEachWordStats(stats => ({
+            responseTimes: [],
+            medianResponseMs: null,
+            ...stats
+        }))
+    },
+    {
+        version: 5,
+        description: 'Day each word was introduced; unknown for words already seen',
+        migrate: () => migrateEachWordStats(stats => ({
+            firstSeen: null,
+            ...stats
+        }))
+    },
+    {
+        version: 6,
+        description: 'Learning step state on every card; existing cards have graduated',
+        migrate: () => migrateEachWordStats(stats => ({
+            ...stats,
+            cards: Object.fromEntries(Object.entries(stats.cards || {}).map(([skill, card]) => [
+                skill,
+                { learningStep: null, relearning: false, dueAt: null, ...card }
+            ]))
+        }))
+    }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let migrationRun: Promise<void> | null = null;
+
+async function runMigrations(): Promise<void> {
+    const stored: number = (await get(STORAGE_KEYS.SCHEMA_VERSION)) || 0;
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= stored) continue;
+        await migration.migrate();
+        await set(STORAGE_KEYS.SCHEMA_VERSION, migration.version);
+    }
+}
+
+/**
+ * Upgrade stored data to the current schema. Runs once per page load;
+ * later calls wait for the same run.
+ */
+export function migrateStorage(): Promise<void> {
+    if (!migrationRun) {
+        migrationRun = runMigrations();
+    }
+    return migrationRun;
+}
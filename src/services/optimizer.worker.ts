@@ -0,0 +1,11 @@
+/**
+ * Runs the scheduler fit off the main thread.
+ * Receives the review log in chronological order, replies with the fitted params (or null).
+ */
+
+import { fitSchedulerParams } from './Optimizer';
+import type { ReviewLogEntry } from './ReviewLog';
+
+self.onmessage = (event: MessageEvent<ReviewLogEntry[]>) => {
+    self.postMessage(fitSchedulerParams(event.data));
+};
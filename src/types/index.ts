@@ -1,3 +1,5 @@
+import type { SkillCards } from "../services/SkillCards";
+
 export type Word = {
   id: string;
   spanish: string;
@@ -5,26 +7,29 @@ export type Word = {
   category: string;
   pronunciation?: string;
   example?: string;
+  answers?: { spanish: string[]; english: string[] }; // accepted answers, parsed from the fields when words are loaded
 };
 
-export type WordProgress = {
+export type WordStats = {
   wordId: string;
   seen: number;
   correct: number;
   wrong: number;
   streak: number; // consecutive correct answers
-  level: 0 | 1 | 2 | 3 | 4; // 0 = new, 4 = mastered
-  lastSeen: string; // ISO date string
-  nextDue: string; // ISO date string (spaced repetition)
+  level: number; // 0 = new, 5 = mastered
+  ease: number; // SM-2 ease factor
+  interval: number; // days until next review
+  reps: number; // successful reviews since the last lapse
+  lapses: number; // times the word was forgotten
+  firstSeen: string | null; // study day the word was introduced, null if before this was tracked
+  lastSeen: string | null; // study day
+  nextDue: string | null; // study day
   hardFlag: boolean; // user marked as hard
+  lastWrongDate: string | null;
+  leech: boolean; // forgotten too often, see leechThreshold
+  suspended: boolean; // left out of queues until unsuspended
+  note: string; // personal note or mnemonic
+  responseTimes: number[]; // latest answer latencies in ms, oldest first
+  medianResponseMs: number | null; // median of responseTimes
+  cards: SkillCards; // per-skill schedules; the fields above summarise them
 };
-
-export type UserProgress = {
-  totalWords: number;
-  learnedWords: number;
-  reviewQueue: string[]; // array of wordIds due today
-  streakDays: number;
-  dailyGoal: number; // target cards per day
-  lastActiveDate: string; // ISO date for streak tracking
-};
-
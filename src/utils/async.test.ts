@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { runExclusive } from './async';
+
+describe('runExclusive', () => {
+  it('ignores calls while a task is still running', async () => {
+    const lock = { current: false };
+    let runs = 0;
+    const grade = () => runExclusive(lock, async () => {
+      runs += 1;
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return runs;
+    });
+
+    const [first, second] = await Promise.all([grade(), grade()]);
+    expect(first).toBe(1);
+    expect(second).toBeUndefined();
+    expect(await grade()).toBe(2);
+  });
+
+  it('releases the lock when the task fails', async () => {
+    const lock = { current: false };
+    const busy: boolean[] = [];
+
+    await expect(runExclusive(lock, async () => { throw new Error('write failed'); }, b => busy.push(b)))
+      .rejects.toThrow('write failed');
+    expect(lock.current).toBe(false);
+    expect(busy).toEqual([true, false]);
+  });
+});
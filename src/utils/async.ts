@@ -0,0 +1,26 @@
+/**
+ * Async helpers for event handlers
+ */
+
+/**
+ * Run `task` unless one guarded by the same lock is still running, so a
+ * double click or key press can't submit the same answer twice. The lock is
+ * a ref, set at once so a second call in the same render is ignored;
+ * `onBusyChange` mirrors it into state for disabling buttons.
+ * Returns the task's result, or undefined if the call was ignored.
+ */
+export async function runExclusive<T>(
+  lock: { current: boolean },
+  task: () => Promise<T>,
+  onBusyChange?: (busy: boolean) => void
+): Promise<T | undefined> {
+  if (lock.current) return undefined;
+  lock.current = true;
+  onBusyChange?.(true);
+  try {
+    return await task();
+  } finally {
+    lock.current = false;
+    onBusyChange?.(false);
+  }
+}
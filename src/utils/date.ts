@@ -0,0 +1,72 @@
+/**
+ * Study-day utilities
+ *
+ * Progress dates are stored as calendar-day strings (YYYY-MM-DD) in the
+ * learner's local time, so they mean the same day wherever the learner is.
+ * A study day begins at a configurable hour rather than at midnight.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Parse a YYYY-MM-DD string (or the date part of an ISO string) as UTC midnight.
+ * Day arithmetic happens in UTC so DST changes never skip or repeat a day.
+ */
+function parseDay(day: string): number {
+  const [year, month, date] = day.split('T')[0].split('-').map(Number);
+  return Date.UTC(year, month - 1, date);
+}
+
+function formatDay(time: number): string {
+  const d = new Date(time);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/**
+ * The study day a moment belongs to, in the local timezone.
+ * Before `dayStartHour` the moment still counts as the previous day.
+ */
+export function getStudyDay(dayStartHour: number = 0, now: Date = new Date()): string {
+  const shifted = new Date(now.getTime() - dayStartHour * 60 * 60 * 1000);
+  return `${shifted.getFullYear()}-${pad(shifted.getMonth() + 1)}-${pad(shifted.getDate())}`;
+}
+
+/**
+ * Add (or subtract) whole days to a day string
+ */
+export function addDaysToDay(day: string, days: number): string {
+  return formatDay(parseDay(day) + days * MS_PER_DAY);
+}
+
+/**
+ * Number of days from `from` to `to` (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to) - parseDay(from)) / MS_PER_DAY);
+}
+
+/**
+ * Normalize a stored date (day string or ISO timestamp) to its day part
+ */
+export function toDay(date: string): string {
+  return date.split('T')[0];
+}
+
+/**
+ * The Monday starting the week a day belongs to
+ */
+export function getWeekStart(day: string): string {
+  const weekday = new Date(parseDay(day)).getUTCDay(); // 0 = Sunday
+  return addDaysToDay(day, -((weekday + 6) % 7));
+}
+
+/**
+ * The month a day belongs to, as YYYY-MM
+ */
+export function getMonth(day: string): string {
+  return toDay(day).slice(0, 7);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { allowedDistance, classifyMistakes, evaluateMatch, type MatchOutcome } from './text';
+
+// [typed, answer, outcome] with lenient accents
+const GRADED_PAIRS: [string, string, MatchOutcome][] = [
+  // Exact, ignoring case, punctuation and accents
+  ['que', 'que', 'Correct'],
+  ['De', 'de', 'Correct'],
+  ['¿Qué?', 'que', 'Correct'],
+  ['cafe', 'café', 'Correct'],
+
+  // A swapped pair is one slip, even in short words
+  ['qeu', 'que', 'Close'],
+  ['gaot', 'gato', 'Close'],
+  ['hoal', 'hola', 'Close'],
+  ['gracais', 'gracias', 'Close'],
+  ['ciudda', 'ciudad', 'Close'],
+
+  // Neighbouring keys
+  ['dr', 'de', 'Close'],
+  ['xe', 'de', 'Close'],
+  ['bibliotexa', 'biblioteca', 'Close'],
+
+  // Letters Spanish spells alike
+  ['baca', 'vaca', 'Close'],
+  ['yave', 'llave', 'Close'],
+  ['cabayo', 'caballo', 'Close'],
+  ['sapato', 'zapato', 'Close'],
+  ['biblioteka', 'biblioteca', 'Close'],
+
+  // Short words allow no real mistake, longer ones one or two
+  ['cosa', 'casa', 'Incorrect'],
+  ['masa', 'mesa', 'Incorrect'],
+  ['ola', 'hola', 'Incorrect'],
+  ['perro', 'pero', 'Incorrect'],
+  ['pero', 'perro', 'Close'],
+  ['biblotca', 'biblioteca', 'Incorrect'],
+  ['desafortunadamnte', 'desafortunadamente', 'Close'],
+  ['desafortnadamnte', 'desafortunadamente', 'Close'],
+  ['desfrtnadamnte', 'desafortunadamente', 'Incorrect'],
+
+  // Another word altogether
+  ['gato', 'perro', 'Incorrect'],
+  ['', 'perro', 'Incorrect']
+];
+
+describe('evaluateMatch', () => {
+  it.each(GRADED_PAIRS)('grades "%s" for "%s" as %s', (typed, answer, outcome) => {
+    expect(evaluateMatch(typed, answer).outcome).toBe(outcome);
+  });
+
+  it('grades missing accents by the strictness setting', () => {
+    expect(evaluateMatch('nino', 'niño', 'warn').outcome).toBe('AccentError');
+    expect(evaluateMatch('nino', 'niño', 'strict').outcome).toBe('AccentError');
+    expect(evaluateMatch('nino', 'niño', 'lenient').outcome).toBe('Correct');
+  });
+});
+
+describe('allowedDistance', () => {
+  it('grows with the length of the answer', () => {
+    expect([3, 4, 5, 7, 8, 11, 12].map(allowedDistance)).toEqual([0.5, 0.5, 1, 1, 1.5, 1.5, 2]);
+  });
+});
+
+describe('classifyMistakes', () => {
+  it('spots false friends, short or long', () => {
+    expect(classifyMistakes('soap', 'sopa', 'sopa')).toEqual(['false_friend']);
+    expect(classifyMistakes('rope', 'ropa', 'ropa')).toEqual(['false_friend']);
+    expect(classifyMistakes('embarrased', 'embarazada', 'embarazada')).toEqual(['false_friend']);
+    expect(classifyMistakes('exit', 'éxito', 'éxito')).toEqual(['false_friend']);
+  });
+
+  it('does not take short words a letter apart for look-alikes', () => {
+    expect(classifyMistakes('ropa', 'sopa', 'soup')).toEqual(['typo']);
+    expect(classifyMistakes('sopa', 'ropa', 'clothes')).toEqual(['typo']);
+  });
+
+  it('names the kind of misspelling', () => {
+    expect(classifyMistakes('esta', 'está')).toEqual(['accent']);
+    expect(classifyMistakes('ola', 'hola')).toEqual(['silent_h']);
+    expect(classifyMistakes('pero', 'perro')).toEqual(['double_letter']);
+    expect(classifyMistakes('baca', 'vaca')).toEqual(['sound_alike']);
+    expect(classifyMistakes('el mesa', 'la mesa')).toEqual(['article']);
+    expect(classifyMistakes('gato', 'perro')).toEqual(['wrong_word']);
+    expect(classifyMistakes('perro', 'perro')).toEqual([]);
+  });
+});
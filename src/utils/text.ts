@@ -2,14 +2,24 @@
  * Text normalization and similarity utilities
  */
 
+import type { Word } from '../types';
+
 /**
  * Normalize text for comparison:
  * - lowercase
  * - trim
  * - remove punctuation
- * - remove diacritics using Unicode normalization
+ * - remove diacritics using Unicode normalization, unless `keepAccents`
  */
-export function normalizeText(text: string): string {
+export function normalizeText(text: string, keepAccents: boolean = false): string {
+  if (keepAccents) {
+    return text
+      .toLowerCase()
+      .trim()
+      .normalize('NFC') // Compose letters and their accents
+      .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove punctuation
+      .replace(/\s+/g, ' '); // Normalize whitespace
+  }
   return text
     .toLowerCase()
     .trim()
@@ -19,79 +29,566 @@ export function normalizeText(text: string): string {
     .replace(/\s+/g, ' '); // Normalize whitespace
 }
 
+// ============================================
+// EDIT DISTANCE
+// ============================================
+
+// Weighted costs of each kind of edit. Slips of the finger and the
+// letters Spanish spells alike cost half a real mistake.
+const EDIT_COST = 1;
+const TRANSPOSITION_COST = 0.5; // "gaot" for "gato" is one slip of the finger, not two mistakes
+const KEYBOARD_COST = 0.5;
+const CONFUSION_COST = 0.5;
+const ACCENT_COST = 0.5; // "a" for "á", when accents are compared
+
+const QWERTY_ROWS = ['qwertyuiop', 'asdfghjklñ', 'zxcvbnm'];
+
+// Letters that sound alike in Spanish, so are easily swapped in writing
+const SPANISH_CONFUSIONS: [string, string][] = [
+  ['b', 'v'],
+  ['c', 'z'],
+  ['c', 's'],
+  ['s', 'z'],
+  ['ll', 'y']
+];
+
 /**
- * Calculate Levenshtein distance between two strings
+ * Pairs of keys next to each other on a QWERTY keyboard, in either order.
+ * Rows are staggered, so a key touches two keys in the row above and two
+ * in the row below.
  */
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = [];
+const KEYBOARD_NEIGHBOURS: Set<string> = (() => {
+  const pairs = new Set<string>();
+  const add = (x: string | undefined, y: string | undefined) => {
+    if (!x || !y) return;
+    pairs.add(x + y);
+    pairs.add(y + x);
+  };
+  QWERTY_ROWS.forEach((row, r) => {
+    for (let c = 0; c < row.length; c++) {
+      add(row[c], row[c + 1]);
+      add(row[c], QWERTY_ROWS[r + 1]?.[c]);
+      add(row[c], QWERTY_ROWS[r + 1]?.[c - 1]);
+    }
+  });
+  return pairs;
+})();
+
+const CONFUSION_PAIRS = new Set(
+  SPANISH_CONFUSIONS.flatMap(([x, y]) => [`${x}|${y}`, `${y}|${x}`])
+);
 
-  if (a.length === 0) return b.length;
-  if (b.length === 0) return a.length;
+// Multi-letter confusions, e.g. "ll" for "y", tried as a unit
+const MULTI_LETTER_CONFUSIONS = SPANISH_CONFUSIONS
+  .flatMap(([x, y]) => [[x, y], [y, x]])
+  .filter(([x, y]) => x.length > 1 || y.length > 1);
+
+/**
+ * Cost of typing `typed` where `expected` belongs
+ */
+function substitutionCost(typed: string, expected: string): number {
+  if (typed === expected) return 0;
+  if (CONFUSION_PAIRS.has(`${typed}|${expected}`)) return CONFUSION_COST;
+  if (KEYBOARD_NEIGHBOURS.has(typed + expected)) return KEYBOARD_COST;
+  if (normalizeText(typed) === normalizeText(expected) && /\p{L}/u.test(typed)) return ACCENT_COST;
+  return EDIT_COST;
+}
+
+/**
+ * Build the weighted Damerau-Levenshtein edit matrix (optimal string
+ * alignment): matrix[i][j] is the cost of turning the first j characters
+ * of `a` into the first i characters of `b`
+ */
+function editMatrix(a: string, b: string): number[][] {
+  const matrix: number[][] = [];
 
   // Initialize matrix
   for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
+    matrix[i] = [i * EDIT_COST];
   }
   for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
+    matrix[0][j] = j * EDIT_COST;
   }
 
   // Fill matrix
   for (let i = 1; i <= b.length; i++) {
     for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1, // substitution
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j] + 1      // deletion
-        );
+      let cost = Math.min(
+        matrix[i - 1][j - 1] + substitutionCost(a[j - 1], b[i - 1]), // substitution
+        matrix[i][j - 1] + EDIT_COST,                                  // insertion
+        matrix[i - 1][j] + EDIT_COST                                   // deletion
+      );
+
+      // Transposition of two neighbouring letters
+      if (i > 1 && j > 1 && a[j - 1] === b[i - 2] && a[j - 2] === b[i - 1] && a[j - 1] !== a[j - 2]) {
+        cost = Math.min(cost, matrix[i - 2][j - 2] + TRANSPOSITION_COST);
+      }
+
+      // "y" for "ll" and the like
+      for (const [typed, expected] of MULTI_LETTER_CONFUSIONS) {
+        if (j >= typed.length && i >= expected.length
+          && a.slice(j - typed.length, j) === typed && b.slice(i - expected.length, i) === expected) {
+          cost = Math.min(cost, matrix[i - expected.length][j - typed.length] + CONFUSION_COST);
+        }
       }
+
+      matrix[i][j] = cost;
     }
   }
 
-  return matrix[b.length][a.length];
+  return matrix;
 }
 
 /**
- * Calculate similarity between two strings (0.0 to 1.0)
- * Uses normalized Levenshtein distance
+ * Weighted edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  if (a.length === 0) return b.length * EDIT_COST;
+  if (b.length === 0) return a.length * EDIT_COST;
+
+  return editMatrix(a, b)[b.length][a.length];
+}
+
+/**
+ * One step of turning a typed answer into the target:
+ * - match: the letter is right
+ * - substitute: `typed` was given where `expected` belongs; either may be
+ *   two letters, as with "y" for "ll"
+ * - transpose: two letters were swapped, `typed` is how they were given
+ * - insert: `typed` is extra and should go
+ * - delete: `expected` was left out
+ */
+export type EditOperation =
+  | { type: 'match'; typed: string; expected: string }
+  | { type: 'substitute'; typed: string; expected: string }
+  | { type: 'transpose'; typed: string; expected: string }
+  | { type: 'insert'; typed: string }
+  | { type: 'delete'; expected: string };
+
+/**
+ * Align a typed answer with the target, character by character, by
+ * tracing a cheapest path back through the edit matrix. Case and
+ * surrounding space are ignored; accents and punctuation are kept so the
+ * learner sees them.
+ */
+export function alignStrings(input: string, target: string): EditOperation[] {
+  // Compared in lowercase, shown as written
+  const typed = input.trim().normalize('NFC');
+  const shown = target.trim().normalize('NFC');
+  const a = typed.toLowerCase();
+  const b = shown.toLowerCase();
+  const matrix = editMatrix(a, b);
+  const operations: EditOperation[] = [];
+
+  let i = b.length;
+  let j = a.length;
+  while (i > 0 || j > 0) {
+    const cost = matrix[i][j];
+    const multi = MULTI_LETTER_CONFUSIONS.find(([t, e]) =>
+      j >= t.length && i >= e.length
+      && a.slice(j - t.length, j) === t && b.slice(i - e.length, i) === e
+      && cost === matrix[i - e.length][j - t.length] + CONFUSION_COST
+    );
+
+    if (i > 0 && j > 0 && a[j - 1] === b[i - 1] && cost === matrix[i - 1][j - 1]) {
+      operations.push({ type: 'match', typed: typed[j - 1], expected: shown[i - 1] });
+      i--;
+      j--;
+    } else if (i > 1 && j > 1 && a[j - 1] === b[i - 2] && a[j - 2] === b[i - 1]
+      && cost === matrix[i - 2][j - 2] + TRANSPOSITION_COST) {
+      operations.push({ type: 'transpose', typed: typed.slice(j - 2, j), expected: shown.slice(i - 2, i) });
+      i -= 2;
+      j -= 2;
+    } else if (multi) {
+      const [t, e] = multi;
+      operations.push({ type: 'substitute', typed: typed.slice(j - t.length, j), expected: shown.slice(i - e.length, i) });
+      i -= e.length;
+      j -= t.length;
+    } else if (i > 0 && j > 0 && cost === matrix[i - 1][j - 1] + substitutionCost(a[j - 1], b[i - 1])) {
+      operations.push({ type: 'substitute', typed: typed[j - 1], expected: shown[i - 1] });
+      i--;
+      j--;
+    } else if (j > 0 && cost === matrix[i][j - 1] + EDIT_COST) {
+      operations.push({ type: 'insert', typed: typed[j - 1] });
+      j--;
+    } else {
+      operations.push({ type: 'delete', expected: shown[i - 1] });
+      i--;
+    }
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * Errors allowed for an answer to still count as Close, by the length of
+ * the target. Short words allow only a slip of the finger or a sound-alike
+ * letter, longer ones a mistake or two.
  */
-export function stringSimilarity(str1: string, str2: string): number {
-  const norm1 = normalizeText(str1);
-  const norm2 = normalizeText(str2);
+export function allowedDistance(length: number): number {
+  if (length <= 4) return 0.5;
+  if (length <= 7) return 1;
+  if (length <= 11) return 1.5;
+  return 2;
+}
 
-  if (norm1 === norm2) return 1.0;
-  if (norm1.length === 0 || norm2.length === 0) return 0.0;
+/**
+ * Weighted distance between two texts after normalization, with the
+ * similarity it leaves (0.0 to 1.0) and the normalized target length
+ */
+function compareTexts(input: string, target: string, keepAccents: boolean): {
+  distance: number;
+  similarity: number;
+  length: number;
+} {
+  const norm1 = normalizeText(input, keepAccents);
+  const norm2 = normalizeText(target, keepAccents);
 
-  const distance = levenshteinDistance(norm1, norm2);
+  if (norm1 === norm2) return { distance: 0, similarity: 1.0, length: norm2.length };
+
+  const distance = editDistance(norm1, norm2);
   const maxLength = Math.max(norm1.length, norm2.length);
-  
-  return 1.0 - (distance / maxLength);
+
+  return { distance, similarity: Math.max(0, 1.0 - (distance / maxLength)), length: norm2.length };
+}
+
+/**
+ * Calculate similarity between two strings (0.0 to 1.0)
+ * Uses the normalized weighted edit distance
+ */
+export function stringSimilarity(str1: string, str2: string, keepAccents: boolean = false): number {
+  return compareTexts(str1, str2, keepAccents).similarity;
+}
+
+// ============================================
+// ACCENTS
+// ============================================
+
+/**
+ * How accent mistakes are graded:
+ * - lenient: accepted without a word, as if the accents were typed
+ * - warn: accepted, with the letters that needed an accent pointed out
+ * - strict: wrong, and accents count towards how close a misspelling is
+ */
+export type AccentStrictness = 'lenient' | 'warn' | 'strict';
+
+export interface AccentMistake {
+  index: number; // code point position in the NFC-normalized target
+  expected: string; // letter in the target, e.g. "á" or "ñ"
+  typed: string; // letter that was given instead, e.g. "a" or "n"
+}
+
+// The letters, with their position, of NFC-normalized text
+function letters(text: string): { char: string; index: number }[] {
+  return [...text.normalize('NFC')]
+    .map((char, index) => ({ char: char.toLowerCase(), index }))
+    .filter(({ char }) => /[\p{L}\p{N}]/u.test(char));
+}
+
+/**
+ * Letters of the target whose accent or tilde was left out, added or
+ * wrong. Only meaningful when the texts match apart from accents; returns
+ * nothing when the letters themselves differ.
+ */
+export function findAccentMistakes(input: string, target: string): AccentMistake[] {
+  const typed = letters(input);
+  const expected = letters(target);
+  if (typed.length !== expected.length) return [];
+
+  const mistakes: AccentMistake[] = [];
+  for (let i = 0; i < expected.length; i++) {
+    if (typed[i].char === expected[i].char) continue;
+    if (normalizeText(typed[i].char) !== normalizeText(expected[i].char)) return [];
+    mistakes.push({ index: expected[i].index, expected: expected[i].char, typed: typed[i].char });
+  }
+  return mistakes;
 }
 
 /**
- * Match outcomes based on similarity threshold
+ * Whether an accent mistake is an ñ/n swap, a different letter rather
+ * than a missing accent
  */
-export type MatchOutcome = 'Correct' | 'Close' | 'Incorrect';
+export function isTildeMistake(mistake: AccentMistake): boolean {
+  return mistake.expected === 'ñ' || mistake.typed === 'ñ';
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Match outcomes based on the edit distance allowed for the target's
+ * length. AccentError is a match apart from accents, which the strictness
+ * setting then grades.
+ */
+export type MatchOutcome = 'Correct' | 'AccentError' | 'Close' | 'Incorrect';
 
-export function evaluateMatch(input: string, target: string): {
+// Best outcome first, for picking among accepted answers
+const OUTCOME_RANK: MatchOutcome[] = ['Correct', 'AccentError', 'Close', 'Incorrect'];
+
+export function evaluateMatch(input: string, target: string, strictness: AccentStrictness = 'lenient'): {
   outcome: MatchOutcome;
   similarity: number;
+  accentMistakes: AccentMistake[];
 } {
-  const similarity = stringSimilarity(input, target);
+  const accentMistakes = stringSimilarity(input, target) === 1.0 ? findAccentMistakes(input, target) : [];
+  if (accentMistakes.length > 0 && strictness !== 'lenient') {
+    return { outcome: 'AccentError', similarity: stringSimilarity(input, target, true), accentMistakes };
+  }
+
+  const { distance, similarity, length } = compareTexts(input, target, strictness === 'strict');
   
   let outcome: MatchOutcome;
-  if (similarity === 1.0) {
+  if (distance === 0) {
     outcome = 'Correct';
-  } else if (similarity >= 0.85) {
+  } else if (length > 0 && distance <= allowedDistance(length)) {
     outcome = 'Close';
   } else {
     outcome = 'Incorrect';
   }
 
-  return { outcome, similarity };
+  return { outcome, similarity, accentMistakes };
+}
+
+/**
+ * Whether an outcome counts as a right answer
+ */
+export function isAcceptedOutcome(outcome: MatchOutcome, strictness: AccentStrictness): boolean {
+  if (outcome === 'AccentError') return strictness !== 'strict';
+  return outcome === 'Correct' || outcome === 'Close';
+}
+
+// ============================================
+// ACCEPTED ANSWERS
+// ============================================
+
+/**
+ * Split a translation into the answers it accepts. Alternatives are
+ * separated by "/", ";" or commas outside parentheses, so "to say/tell"
+ * gives "to say" and "to tell": when the first alternative is a verb with
+ * "to", the others get it too.
+ */
+export function parseAcceptedAnswers(text: string): string[] {
+  const parts: string[] = [];
+  let part = '';
+  let depth = 0;
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (depth === 0 && (char === '/' || char === ';' || char === ',')) {
+      parts.push(part);
+      part = '';
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+
+  const answers = parts.map(p => p.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  if (answers.length === 0) return [text.trim()];
+
+  const isVerb = /^to\s/i.test(answers[0]);
+  return [...new Set(answers.map((answer, i) =>
+    i > 0 && isVerb && !/^(to\s|\()/i.test(answer) ? `to ${answer}` : answer
+  ))];
+}
+
+/**
+ * The accepted answers for one side of a word
+ */
+export function getAcceptedAnswers(word: Word, side: 'spanish' | 'english'): string[] {
+  return word.answers?.[side] ?? parseAcceptedAnswers(word[side]);
+}
+
+/**
+ * Every way an answer may be typed: parenthetical parts are optional,
+ * as is a leading "to" on verbs. "to be (permanent)" also accepts
+ * "to be", "be permanent" and "be".
+ */
+function answerVariants(answer: string): string[] {
+  const withParts = answer.replace(/[()]/g, '');
+  const withoutParts = answer.replace(/\([^)]*\)/g, '');
+  const variants = [withParts, withoutParts].flatMap(v => {
+    const trimmed = v.trim().replace(/\s+/g, ' ');
+    return [trimmed, trimmed.replace(/^to\s+/i, '')];
+  });
+  return [...new Set(variants.filter(Boolean))];
+}
+
+/**
+ * Grade an answer against every accepted answer and keep the best match.
+ * `answer` is the accepted answer that was matched and `matched` the form
+ * of it that was compared, e.g. without its optional parts.
+ */
+export function evaluateAnswers(input: string, answers: string[], strictness: AccentStrictness = 'lenient'): {
+  outcome: MatchOutcome;
+  similarity: number;
+  accentMistakes: AccentMistake[]; // positions in `matched`
+  answer: string;
+  matched: string;
+} {
+  const first = answers[0] ?? '';
+  let best = { ...evaluateMatch(input, first, strictness), answer: first, matched: first };
+  for (const answer of answers) {
+    for (const variant of answerVariants(answer)) {
+      const match = evaluateMatch(input, variant, strictness);
+      const rank = OUTCOME_RANK.indexOf(match.outcome) - OUTCOME_RANK.indexOf(best.outcome);
+      if (rank < 0 || (rank === 0 && match.similarity > best.similarity)) {
+        best = { ...match, answer, matched: variant };
+      }
+    }
+  }
+  return best;
+}
+
+// ============================================
+// MISTAKES
+// ============================================
+
+/**
+ * Kinds of mistake in a typed or spoken answer:
+ * - accent: an accent left out or wrong, or n for ñ
+ * - article: el/la, un/una… of the wrong gender or number
+ * - sound_alike: letters Spanish spells alike, b/v, ll/y, c/z/s
+ * - silent_h: an h left out or added
+ * - double_letter: rr, ll, cc… written single, or a letter doubled
+ * - false_friend: the English look-alike given for the meaning, or back
+ * - wrong_word: nothing like the answer
+ * - typo: any other misspelling
+ */
+export type MistakeType =
+  | 'accent'
+  | 'article'
+  | 'sound_alike'
+  | 'silent_h'
+  | 'double_letter'
+  | 'false_friend'
+  | 'wrong_word'
+  | 'typo';
+
+export const MISTAKE_LABELS: Record<MistakeType, string> = {
+  accent: 'Missing accents',
+  article: 'Wrong article (el/la)',
+  sound_alike: 'Sound-alike letters (b/v, ll/y)',
+  silent_h: 'Silent h',
+  double_letter: 'Double letters (rr, ll)',
+  false_friend: 'False friends',
+  wrong_word: 'Wrong word',
+  typo: 'Other typos'
+};
+
+const ARTICLES = ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'];
+
+// Spanish words and the English words they look like but don't mean
+const FALSE_FRIENDS: [string, string][] = [
+  ['embarazada', 'embarrassed'],
+  ['éxito', 'exit'],
+  ['librería', 'library'],
+  ['carpeta', 'carpet'],
+  ['actual', 'actual'],
+  ['actualmente', 'actually'],
+  ['sensible', 'sensible'],
+  ['constipado', 'constipated'],
+  ['realizar', 'realize'],
+  ['asistir', 'assist'],
+  ['atender', 'attend'],
+  ['molestar', 'molest'],
+  ['largo', 'large'],
+  ['ropa', 'rope'],
+  ['pretender', 'pretend'],
+  ['soportar', 'support'],
+  ['decepción', 'deception'],
+  ['fábrica', 'fabric'],
+  ['colegio', 'college'],
+  ['discutir', 'discuss'],
+  ['suceso', 'success'],
+  ['lectura', 'lecture'],
+  ['sopa', 'soap'],
+  ['vaso', 'vase'],
+  ['introducir', 'introduce'],
+  ['recordar', 'record']
+];
+
+/**
+ * Near enough to count as the same word: within the edits allowed for the
+ * word's length, so short words like sopa and ropa stay apart
+ */
+function looksLike(text: string, word: string): boolean {
+  const { distance, length } = compareTexts(text, word, false);
+  return distance <= allowedDistance(length);
 }
 
+/**
+ * Whether the answer is the false friend of the prompt: the English
+ * look-alike of a Spanish prompt, or the Spanish look-alike of an English one
+ */
+function isFalseFriend(input: string, prompt: string): boolean {
+  const prompts = parseAcceptedAnswers(prompt);
+  return FALSE_FRIENDS.some(([spanish, english]) =>
+    (prompts.some(p => looksLike(p, spanish)) && looksLike(input, english))
+    || (prompts.some(p => looksLike(p, english)) && looksLike(input, spanish) && !looksLike(input, english))
+  );
+}
+
+/**
+ * Classify what went wrong in an answer against the target it was graded
+ * against. `prompt` is what was asked, for spotting false friends.
+ * Returns nothing for a right answer; a mistake may have several kinds.
+ */
+export function classifyMistakes(input: string, target: string, prompt: string = ''): MistakeType[] {
+  let typed = normalizeText(input, true);
+  let expected = normalizeText(target, true);
+  if (!typed || typed === expected) return [];
+
+  if (prompt && isFalseFriend(typed, prompt)) return ['false_friend'];
+
+  const mistakes = new Set<MistakeType>();
 
+  // A different article before the right noun
+  const [typedArticle, ...typedRest] = typed.split(' ');
+  const [expectedArticle, ...expectedRest] = expected.split(' ');
+  if (ARTICLES.includes(typedArticle) && ARTICLES.includes(expectedArticle) && typedArticle !== expectedArticle) {
+    mistakes.add('article');
+    typed = typedRest.join(' ');
+    expected = expectedRest.join(' ');
+  }
+  if (typed === expected) return [...mistakes];
+
+  if (stringSimilarity(typed, expected) < 0.5) {
+    mistakes.add('wrong_word');
+    return [...mistakes];
+  }
+
+  // Walk the alignment, keeping track of where each step falls
+  const isDoubled = (text: string, i: number) => text[i - 1] === text[i] || text[i + 1] === text[i];
+  let t = 0;
+  let e = 0;
+  for (const op of alignStrings(typed, expected)) {
+    switch (op.type) {
+      case 'match':
+        break;
+      case 'substitute':
+        if (normalizeText(op.typed) === normalizeText(op.expected)) mistakes.add('accent');
+        else if (CONFUSION_PAIRS.has(`${op.typed}|${op.expected}`)) mistakes.add('sound_alike');
+        else mistakes.add('typo');
+        break;
+      case 'transpose':
+        mistakes.add('typo');
+        break;
+      case 'insert':
+        if (op.typed === 'h') mistakes.add('silent_h');
+        else if (isDoubled(typed, t)) mistakes.add('double_letter');
+        else mistakes.add('typo');
+        break;
+      case 'delete':
+        if (op.expected === 'h') mistakes.add('silent_h');
+        else if (isDoubled(expected, e)) mistakes.add('double_letter');
+        else mistakes.add('typo');
+        break;
+    }
+    if (op.type !== 'delete') t += op.typed.length;
+    if (op.type !== 'insert') e += op.expected.length;
+  }
+
+  return [...mistakes];
+}
@@ -0,0 +1,220 @@
+/**
+ * Vocabulary import from CSV/TSV
+ *
+ * Shared by the in-app import screen and scripts/csv-to-words-json.ts, so a
+ * file maps to the same words in both places.
+ */
+
+import type { Word } from '../types';
+
+export const WORD_FIELDS = ['spanish', 'english', 'category', 'pronunciation', 'example'] as const;
+
+export type WordField = typeof WORD_FIELDS[number];
+
+// Column index for each field, null when the file has no such column
+export type ColumnMapping = Record<WordField, number | null>;
+
+export type Delimiter = ',' | '\t' | ';';
+
+export interface WordTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: Delimiter;
+}
+
+export interface ImportRow {
+  row: number; // 1-based, not counting the header
+  word: Word;
+  duplicate: boolean; // its id was already taken, by an existing word or an earlier row
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  skipped: number; // rows without Spanish or English
+}
+
+// Column name aliases, matched case-insensitively
+export const COLUMN_ALIASES: Record<WordField, string[]> = {
+  spanish: ['spanish', 'es', 'word', 'term', 'sp', 'palabra'],
+  english: ['english', 'en', 'translation', 'meaning', 'def'],
+  category: ['category', 'topic', 'type', 'group', 'theme'],
+  pronunciation: ['pronunciation', 'phonetic', 'pron'],
+  example: ['example', 'sentence', 'usage']
+};
+
+export const DEFAULT_CATEGORY = 'General';
+
+/**
+ * Decode file bytes, honouring a UTF-8 or UTF-16 LE byte order mark
+ */
+export function decodeWordFile(bytes: Uint8Array): string {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * Guess the delimiter from the header line: whichever of tab, semicolon
+ * and comma it has most of
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const count = (delimiter: Delimiter) => header.split(delimiter).length - 1;
+  const candidates: Delimiter[] = ['\t', ';', ','];
+  return candidates.reduce((best, d) => count(d) > count(best) ? d : best, ',');
+}
+
+/**
+ * Split delimited text into records. Fields may be quoted, with "" for a
+ * literal quote and delimiters or line breaks inside the quotes.
+ */
+export function parseRecords(text: string, delimiter: Delimiter): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endField = () => {
+    record.push(field.trim());
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    // Skip empty lines
+    if (record.some(value => value !== '')) records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * Split CSV/TSV text into a header and rows
+ */
+export function parseWordTable(text: string, delimiter: Delimiter = detectDelimiter(text)): WordTable {
+  const [headers = [], ...rows] = parseRecords(text, delimiter);
+  return { headers, rows, delimiter };
+}
+
+/**
+ * Find which column holds each field from the column names
+ */
+export function detectColumns(headers: string[]): ColumnMapping {
+  const lowerHeaders = headers.map(h => h.toLowerCase().trim());
+  const find = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = lowerHeaders.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return null;
+  };
+
+  return {
+    spanish: find(COLUMN_ALIASES.spanish),
+    english: find(COLUMN_ALIASES.english),
+    category: find(COLUMN_ALIASES.category),
+    pronunciation: find(COLUMN_ALIASES.pronunciation),
+    example: find(COLUMN_ALIASES.example)
+  };
+}
+
+/**
+ * Generate an id from the Spanish word
+ */
+export function generateWordId(spanish: string): string {
+  return spanish
+    .toLowerCase()
+    .trim()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents for ID
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '');
+}
+
+/**
+ * Turn table rows into words. Ids already in `existingIds`, or used by an
+ * earlier row, get a numeric suffix and the row is flagged as a duplicate.
+ */
+export function convertWordTable(
+  table: WordTable,
+  mapping: ColumnMapping,
+  existingIds: Iterable<string> = []
+): ImportResult {
+  const takenIds = new Set(existingIds);
+  const rows: ImportRow[] = [];
+  let skipped = 0;
+
+  const cell = (record: string[], field: WordField) => {
+    const index = mapping[field];
+    return index === null ? '' : (record[index] || '').trim();
+  };
+
+  table.rows.forEach((record, index) => {
+    const spanish = cell(record, 'spanish');
+    const english = cell(record, 'english');
+
+    // Skip if missing required fields
+    if (!spanish || !english) {
+      skipped++;
+      return;
+    }
+
+    // Make the id unique by appending a number
+    let id = generateWordId(spanish);
+    const duplicate = takenIds.has(id);
+    if (duplicate) {
+      let counter = 2;
+      while (takenIds.has(`${id}-${counter}`)) {
+        counter++;
+      }
+      id = `${id}-${counter}`;
+    }
+    takenIds.add(id);
+
+    const word: Word = {
+      id,
+      spanish,
+      english,
+      category: cell(record, 'category') || DEFAULT_CATEGORY
+    };
+
+    // Optional fields only when non-empty
+    const pronunciation = cell(record, 'pronunciation');
+    if (pronunciation) word.pronunciation = pronunciation;
+    const example = cell(record, 'example');
+    if (example) word.example = example;
+
+    rows.push({ row: index + 1, word, duplicate });
+  });
+
+  return { rows, skipped };
+}